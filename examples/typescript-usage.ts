@@ -1,6 +1,8 @@
 // Example: Using macconfigurator in a TypeScript project
 
 import { configManager, ConfigClient, createConfigClient, type ConfigManagerOptions } from 'macconfigurator';
+import type { MyAppConfig } from './my-app-config';
+import myAppSchema from './my-app-schema.json';
 
 // Example 1: Starting the config manager server
 async function startConfigServer() {
@@ -49,17 +51,11 @@ async function useConfigClient() {
     const prodConfig = await client.getConfig('1.0.0', 'production');
     console.log('Production config:', prodConfig);
 
-    // With type safety
-    interface MyAppConfig {
-      apiUrl: string;
-      timeout: number;
-      features: {
-        darkMode: boolean;
-        analytics: boolean;
-      };
-    }
-
-    const typedConfig = await client.getConfig<MyAppConfig>('1.0.0', 'production');
+    // With type safety: MyAppConfig is generated from the application's schema with
+    // curl -u admin:secure-password http://localhost:4480/api/config/api/admin/applications/my-app/types.d.ts -o my-app-config.d.ts
+    // and the schema option rejects configs that no longer match it
+    const typedClient = createConfigClient('http://localhost:4480/api/config', 'my-app', { schema: myAppSchema });
+    const typedConfig = await typedClient.getConfig<MyAppConfig>('1.0.0', 'production');
     console.log('API URL:', typedConfig.apiUrl);
     console.log('Dark mode enabled:', typedConfig.features.darkMode);
 
@@ -4,44 +4,559 @@
 export interface ConfigClientOptions {
   baseUrl: string;
   applicationId: string;
+  // Per-request timeout (defaults to 5000)
+  timeoutMs?: number;
+  // Retries after 5xx responses and network failures or timeouts (defaults to 2)
+  retries?: number;
+  // Base delay of the jittered exponential backoff between retries (defaults to 200)
+  retryDelayMs?: number;
+  // Directory keeping the last config received for each version, used when the server is unreachable
+  cacheDirectory?: string;
+  // Config served when the server is unreachable and no last-known-good config is available
+  defaults?: any;
+  // Called whenever a fallback is served instead of a fresh config
+  onFallback?: (error: ConfigClientError, source: ConfigFallbackSource) => void;
+  // JSON Schema of the application (AppConfig.schema); fetched configs that do not satisfy it are rejected
+  // with InvalidConfigError instead of being returned or emitted to watchers
+  schema?: object | boolean;
+  // Read key of the application, sent in the X-Config-Key header when the server asks for one
+  readKey?: string;
+}
+
+export type ConfigFallbackSource = "memory" | "disk" | "defaults";
+
+/**
+ * Base class of the errors thrown by ConfigClient
+ */
+export class ConfigClientError extends Error {
+  constructor(
+    message: string,
+    readonly applicationId: string,
+    readonly version: string,
+    readonly status?: number,
+    options?: { cause?: unknown },
+    // Error tag sent by the server, e.g. "NamedConfigNotFoundError" or "VersionNotAllowedError" with a 404
+    readonly tag?: string
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * 404: the application does not exist or is archived, or a requested named config does not exist
+ * or does not allow the version (see tag)
+ */
+export class ConfigNotFoundError extends ConfigClientError {}
+
+/**
+ * 400: the version is not valid semver
+ */
+export class InvalidVersionError extends ConfigClientError {}
+
+/**
+ * 401: the application asks for a read key and none, or an invalid or expired one, was sent (see tag)
+ */
+export class ConfigAccessDeniedError extends ConfigClientError {}
+
+/**
+ * 5xx: the server failed or its storage is unavailable
+ */
+export class ConfigServerError extends ConfigClientError {}
+
+/**
+ * The server could not be reached or did not answer within the timeout
+ */
+export class ConfigUnreachableError extends ConfigClientError {}
+
+/**
+ * The server answered with a config that does not satisfy the client's schema option
+ */
+export class InvalidConfigError extends ConfigClientError {
+  constructor(
+    message: string,
+    applicationId: string,
+    version: string,
+    readonly errors: { field: string; message: string }[]
+  ) {
+    super(message, applicationId, version);
+  }
+}
+
+async function errorForResponse(response: Response, applicationId: string, version: string): Promise<ConfigClientError> {
+  const body = await response.json().catch(() => ({}));
+  const detail = typeof body?.error === "string" ? body.error : response.statusText;
+  const message = `Failed to fetch config for ${applicationId}@${version}: ${response.status} ${detail}`;
+  const tag = typeof body?.tag === "string" ? body.tag : undefined;
+  if (response.status === 404) {
+    return new ConfigNotFoundError(message, applicationId, version, response.status, undefined, tag);
+  }
+  if (response.status === 401) {
+    return new ConfigAccessDeniedError(message, applicationId, version, response.status, undefined, tag);
+  }
+  if (response.status === 400) {
+    return new InvalidVersionError(message, applicationId, version, response.status, undefined, tag);
+  }
+  if (response.status >= 500) {
+    return new ConfigServerError(message, applicationId, version, response.status, undefined, tag);
+  }
+  return new ConfigClientError(message, applicationId, version, response.status, undefined, tag);
+}
+
+/**
+ * Emitted by a watcher when the config it follows changes, and once for the first value
+ */
+export interface ConfigChangeEvent<T = any> {
+  applicationId: string;
+  version: string;
+  previous: T | undefined; // undefined for the first value
+  current: T;
+  revision?: number;
+  source: "poll" | "stream";
+}
+
+export type ConfigChangeListener<T = any> = (event: ConfigChangeEvent<T>) => void;
+
+export interface WatchOptions {
+  // "auto" streams when the server supports it and polls otherwise (default)
+  transport?: "auto" | "stream" | "poll";
+  // Lower bound between polls, whatever the Cache-Control max-age (defaults to 1000)
+  minIntervalMs?: number;
+  // Interval between polls when responses carry no max-age, e.g. no-cache (defaults to 30000)
+  pollIntervalMs?: number;
+  // Failed requests and dropped streams are retried; this reports them
+  onError?: (error: Error) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 200;
+const MAX_RETRY_DELAY_MS = 5000;
+const DEFAULT_MIN_INTERVAL_MS = 1000;
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Keeps one version's config fresh and notifies its subscribers of changes
+ */
+export class ConfigWatcher<T = any> {
+  private listeners = new Set<ConfigChangeListener<T>>();
+  private value: T | undefined;
+  private revision?: number;
+  private etag?: string;
+  private timer?: ReturnType<typeof setTimeout>;
+  private abort?: AbortController;
+  private reconnectAttempts = 0;
+  private closed = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly applicationId: string,
+    private readonly version: string,
+    private readonly options: WatchOptions,
+    private readonly onClose: () => void,
+    private readonly validate: (config: T) => Promise<void> = async () => {},
+    private readonly headers: Record<string, string> = {}
+  ) {
+    if (options.transport === "poll") {
+      this.poll();
+    } else {
+      this.stream();
+    }
+  }
+
+  /**
+   * Latest known config, undefined until the first value arrived
+   */
+  get current(): T | undefined {
+    return this.value;
+  }
+
+  /**
+   * Add a listener; the current value, if any, is not replayed. Returns a function removing it.
+   */
+  subscribe(listener: ConfigChangeListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Stop polling or streaming and drop all listeners
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.abort?.abort();
+    this.listeners.clear();
+    this.onClose();
+  }
+
+  // Invalid configs are reported and never become the current value
+  private async accept(current: T, revision: number | undefined, source: ConfigChangeEvent["source"]): Promise<void> {
+    try {
+      await this.validate(current);
+    } catch (error) {
+      this.report(error);
+      return;
+    }
+    this.update(current, revision, source);
+  }
+
+  private update(current: T, revision: number | undefined, source: ConfigChangeEvent["source"]): void {
+    const previous = this.value;
+    this.revision = revision ?? this.revision;
+    if (previous !== undefined && JSON.stringify(previous) === JSON.stringify(current)) {
+      return;
+    }
+    this.value = current;
+    const event = { applicationId: this.applicationId, version: this.version, previous, current, revision, source };
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private report(error: unknown): void {
+    this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+  }
+
+  private schedule(next: () => void, delayMs: number): void {
+    if (!this.closed) {
+      this.timer = setTimeout(next, delayMs);
+    }
+  }
+
+  // Conditional GET, rescheduled after the response's max-age
+  private async poll(): Promise<void> {
+    const minIntervalMs = this.options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+    let delayMs = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    try {
+      this.abort = new AbortController();
+      const response = await fetch(this.url, {
+        headers: { ...this.headers, ...(this.etag ? { "If-None-Match": this.etag } : {}) },
+        signal: this.abort.signal,
+      });
+      const maxAge = /max-age=(\d+)/.exec(response.headers.get("Cache-Control") ?? "");
+      if (maxAge) {
+        delayMs = Number(maxAge[1]) * 1000;
+      }
+      if (response.status === 200) {
+        this.etag = response.headers.get("ETag") ?? undefined;
+        // ETags start with the application revision, e.g. "4-<hash>"
+        const revision = Number(/^"(\d+)-/.exec(this.etag ?? "")?.[1]);
+        await this.accept(await response.json(), Number.isNaN(revision) ? undefined : revision, "poll");
+      } else if (response.status !== 304) {
+        throw await errorForResponse(response, this.applicationId, this.version);
+      }
+    } catch (error) {
+      if (this.closed) {
+        return;
+      }
+      this.report(error);
+    }
+    this.schedule(() => this.poll(), Math.max(delayMs, minIntervalMs));
+  }
+
+  // Server-Sent Events, reconnecting with Last-Event-ID; falls back to polling when the server has no stream
+  private async stream(): Promise<void> {
+    try {
+      this.abort = new AbortController();
+      const response = await fetch(`${this.url}/stream`, {
+        headers: {
+          ...this.headers,
+          Accept: "text/event-stream",
+          ...(this.revision !== undefined ? { "Last-Event-ID": String(this.revision) } : {}),
+        },
+        signal: this.abort.signal,
+      });
+      if (!response.ok || !response.headers.get("Content-Type")?.startsWith("text/event-stream") || !response.body) {
+        if (this.options.transport === "stream") {
+          throw await errorForResponse(response, this.applicationId, this.version);
+        }
+        response.body?.cancel().catch(() => undefined);
+        this.poll();
+        return;
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        this.reconnectAttempts = 0;
+        buffer += value;
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) >= 0) {
+          await this.dispatch(buffer.slice(0, end));
+          buffer = buffer.slice(end + 2);
+        }
+      }
+      throw new Error("Config stream closed by the server");
+    } catch (error) {
+      if (this.closed) {
+        return;
+      }
+      this.report(error);
+    }
+    const delayMs = Math.min(1000 * 2 ** this.reconnectAttempts++, MAX_RECONNECT_DELAY_MS);
+    this.schedule(() => this.stream(), delayMs);
+  }
+
+  private async dispatch(message: string): Promise<void> {
+    let event = "message";
+    let id: string | undefined;
+    let data = "";
+    for (const line of message.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("id:")) id = line.slice(3).trim();
+      else if (line.startsWith("data:")) data += line.slice(5).trim();
+    }
+    if (event === "config") {
+      await this.accept(JSON.parse(data), id === undefined ? undefined : Number(id), "stream");
+    } else if (event === "unavailable") {
+      this.report(new Error(`Config for ${this.applicationId}@${this.version} is no longer available`));
+    } else if (event === "unauthorized") {
+      const message = `Read key for ${this.applicationId}@${this.version} was revoked or expired`;
+      this.report(new ConfigAccessDeniedError(message, this.applicationId, this.version, 401, undefined, "InvalidReadKeyError"));
+    }
+  }
 }
 
 export class ConfigClient {
   private baseUrl: string;
   private applicationId: string;
+  private options: ConfigClientOptions;
+  private watchers = new Set<ConfigWatcher>();
+  // Last config received for each version (and config name)
+  private lastKnownGood = new Map<string, any>();
+  private validator?: Promise<(config: unknown) => { field: string; message: string }[]>;
 
   constructor(options: ConfigClientOptions) {
     this.baseUrl = options.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.applicationId = options.applicationId;
+    this.options = options;
   }
 
   /**
    * Fetch configuration for a specific version
    * @param version - Semantic version string (e.g., "1.0.0")
    * @param configName - Optional named configuration (e.g., "production", "staging")
+   * @throws ConfigNotFoundError, InvalidVersionError or ConfigAccessDeniedError; ConfigServerError or ConfigUnreachableError
+   * once retries are exhausted and no fallback (last-known-good or defaults) is available;
+   * InvalidConfigError when the config does not satisfy the schema option
    */
   async getConfig<T = any>(version: string, configName?: string): Promise<T> {
+    const key = configName ? `${version}#${configName}` : version;
+    try {
+      const config = await this.fetchWithRetries<T>(version, configName);
+      await this.validate(config, version);
+      this.lastKnownGood.set(key, config);
+      await this.writeCacheFile(key, config);
+      return config;
+    } catch (error) {
+      if (!(error instanceof ConfigServerError || error instanceof ConfigUnreachableError)) {
+        throw error;
+      }
+      const fallback = await this.fallback(key);
+      if (!fallback) {
+        throw error;
+      }
+      this.options.onFallback?.(error, fallback.source);
+      return fallback.value;
+    }
+  }
+
+  private async fetchWithRetries<T>(version: string, configName?: string): Promise<T> {
+    const retries = this.options.retries ?? DEFAULT_RETRIES;
+    const retryDelayMs = this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchConfig<T>(version, configName);
+      } catch (error) {
+        const retryable = error instanceof ConfigServerError || error instanceof ConfigUnreachableError;
+        if (!retryable || attempt >= retries) {
+          throw error;
+        }
+        // Full jitter, so that clients restarted together do not retry in lockstep
+        const delayMs = Math.random() * Math.min(retryDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  private async fetchConfig<T>(version: string, configName?: string): Promise<T> {
     const url = `${this.baseUrl}/config/${this.applicationId}/${version}`;
     const queryParams = configName ? `?name=${encodeURIComponent(configName)}` : '';
-    
-    const response = await fetch(url + queryParams);
-    
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    let response: Response;
+    try {
+      response = await fetch(url + queryParams, { headers: this.headers(), signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError";
+      const message = timedOut
+        ? `Config server did not answer within ${timeoutMs}ms`
+        : `Could not reach the config server at ${this.baseUrl}`;
+      throw new ConfigUnreachableError(message, this.applicationId, version, undefined, { cause: error });
+    }
+
     if (!response.ok) {
-      throw new Error(`Failed to fetch config: ${response.status} ${response.statusText}`);
+      throw await errorForResponse(response, this.applicationId, version);
     }
-    
     return response.json();
   }
 
+  private headers(): Record<string, string> {
+    return this.options.readKey ? { "X-Config-Key": this.options.readKey } : {};
+  }
+
+  // Ajv is only loaded when a schema is set, keeping it optional for clients that do not validate
+  private async validate(config: unknown, version: string): Promise<void> {
+    const schema = this.options.schema;
+    if (schema === undefined) {
+      return;
+    }
+    this.validator ??= (async () => {
+      const [{ default: Ajv2020 }, { default: addFormats }] = await Promise.all([
+        import("ajv/dist/2020.js"),
+        import("ajv-formats"),
+      ]);
+      const ajv = new Ajv2020({ allErrors: true });
+      addFormats(ajv);
+      const check = ajv.compile(schema);
+      return (value: unknown) =>
+        check(value)
+          ? []
+          : (check.errors ?? []).map((error) => ({
+              field: error.instancePath.replace(/^\//, "") || "root",
+              message: error.message ?? "Invalid value",
+            }));
+    })();
+    const errors = (await this.validator)(config);
+    if (errors.length > 0) {
+      const summary = errors.map((error) => `${error.field}: ${error.message}`).join("; ");
+      throw new InvalidConfigError(
+        `Config for ${this.applicationId}@${version} does not match its schema: ${summary}`,
+        this.applicationId,
+        version,
+        errors
+      );
+    }
+  }
+
+  private async fallback(key: string): Promise<{ value: any; source: ConfigFallbackSource } | undefined> {
+    if (this.lastKnownGood.has(key)) {
+      return { value: this.lastKnownGood.get(key), source: "memory" };
+    }
+    const cached = await this.readCacheFile(key);
+    if (cached !== undefined) {
+      this.lastKnownGood.set(key, cached);
+      return { value: cached, source: "disk" };
+    }
+    if (this.options.defaults !== undefined) {
+      return { value: this.options.defaults, source: "defaults" };
+    }
+    return undefined;
+  }
+
+  // node:fs is only loaded when cacheDirectory is set, so the client still runs in browsers
+  private async cacheFile(key: string): Promise<string | undefined> {
+    if (!this.options.cacheDirectory) {
+      return undefined;
+    }
+    const path = await import("node:path");
+    return path.join(this.options.cacheDirectory, `${encodeURIComponent(this.applicationId)}@${encodeURIComponent(key)}.json`);
+  }
+
+  private async readCacheFile(key: string): Promise<any> {
+    const file = await this.cacheFile(key);
+    if (!file) {
+      return undefined;
+    }
+    try {
+      const fs = await import("node:fs/promises");
+      return JSON.parse(await fs.readFile(file, "utf-8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Written to a temporary file then renamed, so a crash never leaves a truncated cache behind
+  private async writeCacheFile(key: string, config: unknown): Promise<void> {
+    const file = await this.cacheFile(key);
+    if (!file) {
+      return;
+    }
+    try {
+      const fs = await import("node:fs/promises");
+      await fs.mkdir(this.options.cacheDirectory!, { recursive: true });
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(config));
+      await fs.rename(temporary, file);
+    } catch {
+      // A failed write is not worth failing the request, the cache only matters during an outage
+    }
+  }
+
+  /**
+   * Follow the config of a version: the callback gets the first value, then every change.
+   * Streams updates when the server supports it, otherwise polls with If-None-Match at the
+   * interval allowed by the server's Cache-Control max-age.
+   */
+  watch<T = any>(version: string, callback?: ConfigChangeListener<T>, options: WatchOptions = {}): ConfigWatcher<T> {
+    const url = `${this.baseUrl}/config/${this.applicationId}/${version}`;
+    const watcher: ConfigWatcher<T> = new ConfigWatcher<T>(
+      url,
+      this.applicationId,
+      version,
+      options,
+      () => this.watchers.delete(watcher),
+      (config) => this.validate(config, version),
+      this.headers()
+    );
+    if (callback) {
+      watcher.subscribe(callback);
+    }
+    this.watchers.add(watcher);
+    return watcher;
+  }
+
+  /**
+   * Same as watch, for a listener-only subscription. Returns a function that stops watching.
+   */
+  subscribe<T = any>(version: string, listener: ConfigChangeListener<T>, options: WatchOptions = {}): () => void {
+    const watcher = this.watch(version, listener, options);
+    return () => watcher.close();
+  }
+
+  /**
+   * Stop every watcher created by this client
+   */
+  close(): void {
+    for (const watcher of [...this.watchers]) {
+      watcher.close();
+    }
+  }
+
   /**
-   * Check if a specific version matches the semver range for a named config
+   * Check if a specific version matches the versions or semver ranges of a named config.
+   * Always asks the server: fallbacks are never used to answer.
+   * @throws ConfigNotFoundError when the application or the named config does not exist,
+   * and the errors of getConfig when the server cannot answer
    */
   async checkVersion(version: string, configName: string): Promise<boolean> {
     try {
-      await this.getConfig(version, configName);
+      await this.fetchWithRetries(version, configName);
       return true;
     } catch (error) {
-      return false;
+      if (error instanceof ConfigNotFoundError && error.tag === "VersionNotAllowedError") {
+        return false;
+      }
+      throw error;
     }
   }
 }
@@ -49,6 +564,10 @@ export class ConfigClient {
 /**
  * Create a config client instance
  */
-export function createConfigClient(baseUrl: string, applicationId: string): ConfigClient {
-  return new ConfigClient({ baseUrl, applicationId });
+export function createConfigClient(
+  baseUrl: string,
+  applicationId: string,
+  options: Omit<ConfigClientOptions, "baseUrl" | "applicationId"> = {}
+): ConfigClient {
+  return new ConfigClient({ ...options, baseUrl, applicationId });
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import ApplicationList from './components/ApplicationList';
 import ApplicationEdit from './components/ApplicationEdit';
 import NamedConfigEdit from './components/NamedConfigEdit';
+import ApiTokenList from './components/ApiTokenList';
 
 function App() {
   return (
@@ -15,6 +16,7 @@ function App() {
           <Route path="/applications/new" element={<ApplicationEdit />} />
           <Route path="/applications/:applicationId" element={<ApplicationEdit />} />
           <Route path="/applications/:applicationId/configs/:configName" element={<NamedConfigEdit />} />
+          <Route path="/tokens" element={<ApiTokenList />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </div>
@@ -0,0 +1,219 @@
+// API token management: create scoped bearer tokens, see when they were used and revoke them
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getAdminApiBaseUrl } from '../config';
+
+type Scope = 'read' | 'write' | 'archive';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  applications: string[];
+  scopes: Scope[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+const SCOPES: { scope: Scope; label: string }[] = [
+  { scope: 'read', label: 'Read applications' },
+  { scope: 'write', label: 'Write named configs' },
+  { scope: 'archive', label: 'Archive' },
+];
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+function statusOf(token: ApiToken): string {
+  if (token.revokedAt) return 'Revoked';
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return 'Expired';
+  return 'Active';
+}
+
+export default function ApiTokenList() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [applications, setApplications] = useState('');
+  const [scopes, setScopes] = useState<Scope[]>(['read']);
+  const [expiresAt, setExpiresAt] = useState('');
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await fetch(`${getAdminApiBaseUrl()}/tokens`);
+      if (!response.ok) throw new Error('Failed to fetch API tokens');
+      setTokens(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const toggleScope = (scope: Scope) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch(`${getAdminApiBaseUrl()}/tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          applications: applications.split(',').map((id) => id.trim()).filter(Boolean),
+          scopes,
+          ...(expiresAt ? { expiresAt: new Date(expiresAt).toISOString() } : {}),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        const details = result.errors?.map((e: any) => `${e.field} ${e.message}`).join(', ');
+        throw new Error(details ? `${result.error}: ${details}` : result.error || 'Create failed');
+      }
+      setSecret(result.secret);
+      setName('');
+      setApplications('');
+      setExpiresAt('');
+      await fetchTokens();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Create failed');
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke API token ${token.name}?`)) return;
+
+    try {
+      const response = await fetch(`${getAdminApiBaseUrl()}/tokens/${token.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to revoke');
+      await fetchTokens();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Revoke failed');
+    }
+  };
+
+  if (loading) return <div className="text-center py-4">Loading...</div>;
+  if (error) return <div className="text-red-600 text-center py-4">{error}</div>;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">API Tokens</h1>
+        <Link to="/" className="text-blue-600 hover:underline">
+          Back to applications
+        </Link>
+      </div>
+
+      {secret && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-300 rounded-md">
+          <p className="text-sm text-gray-800 mb-2">Copy the token now, it will not be shown again:</p>
+          <code className="block p-2 bg-white border border-gray-200 rounded text-sm break-all">{secret}</code>
+          <button onClick={() => setSecret(null)} className="mt-2 text-sm text-gray-600 hover:text-gray-800">
+            Done
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 mb-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Create Token</h2>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+            placeholder="ci-deploy"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Applications</label>
+          <input
+            type="text"
+            value={applications}
+            onChange={(e) => setApplications(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+            placeholder="my-app, other-app (or * for all)"
+            required
+          />
+        </div>
+        <div className="flex gap-4">
+          {SCOPES.map(({ scope, label }) => (
+            <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {label}
+            </label>
+          ))}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Expires (optional)</label>
+          <input
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            className="mt-1 block px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Create Token
+        </button>
+      </form>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="p-3">Name</th>
+              <th className="p-3">Applications</th>
+              <th className="p-3">Scopes</th>
+              <th className="p-3">Created</th>
+              <th className="p-3">Expires</th>
+              <th className="p-3">Last used</th>
+              <th className="p-3">Status</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map((token) => (
+              <tr key={token.id} className="border-b border-gray-100">
+                <td className="p-3 font-medium">{token.name}</td>
+                <td className="p-3">{token.applications.join(', ')}</td>
+                <td className="p-3">{token.scopes.join(', ')}</td>
+                <td className="p-3">
+                  {formatDate(token.createdAt)} by {token.createdBy}
+                </td>
+                <td className="p-3">{formatDate(token.expiresAt)}</td>
+                <td className="p-3">{formatDate(token.lastUsedAt)}</td>
+                <td className="p-3">{statusOf(token)}</td>
+                <td className="p-3 text-right">
+                  {!token.revokedAt && (
+                    <button onClick={() => handleRevoke(token)} className="text-red-600 hover:text-red-800">
+                      Revoke
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {tokens.length === 0 && (
+              <tr>
+                <td colSpan={8} className="p-3 text-center text-gray-500">
+                  No API tokens yet
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
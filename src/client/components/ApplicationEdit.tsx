@@ -1,9 +1,13 @@
 // 30 Lines by Claude Opus
 // Application edit view for creating/editing applications
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import JsonEditor from './JsonEditor';
-import { useAutosave } from '../hooks/useAutosave';
+import ConflictPrompt, { editedFields, mergeEdits, type EditedField } from './ConflictPrompt';
+import VersionTester from './VersionTester';
+import ReadKeyManager, { type ReadKey } from './ReadKeyManager';
+import { useAutosave, SaveConflictError } from '../hooks/useAutosave';
+import { useCurrentUser } from '../hooks/useCurrentUser';
 import { getAdminApiBaseUrl } from '../config';
 
 interface NamedConfig {
@@ -18,8 +22,22 @@ interface Application {
   defaultConfig: { data: any };
   schema: any;
   lastUpdated: string;
+  allowVersionOverlap?: boolean;
+  namedConfigMode?: 'replace' | 'merge';
+  revision?: number;
+  public?: boolean;
+  readKeys?: ReadKey[];
 }
 
+interface Revision {
+  revision: number;
+  author: string;
+  timestamp: string;
+}
+
+// The fields a save sends; named configs and read keys change through their own endpoints
+const EDITABLE_FIELDS: (keyof Application)[] = ['schema', 'defaultConfig', 'allowVersionOverlap', 'namedConfigMode', 'public'];
+
 const DEFAULT_SCHEMA = {
   "$schema": "https://json-schema.org/draft/2020-12/schema",
   "type": "object",
@@ -32,6 +50,10 @@ export default function ApplicationEdit() {
   const { applicationId } = useParams();
   const navigate = useNavigate();
   const isNew = !applicationId;
+  const { can } = useCurrentUser();
+  // Creating an application needs the owner role, so its creator may edit everything
+  const canEdit = isNew || can(applicationId, 'editor');
+  const canOwn = isNew || can(applicationId, 'owner');
 
   const [app, setApp] = useState<Application>({
     applicationId: '',
@@ -45,10 +67,23 @@ export default function ApplicationEdit() {
   const [loading, setLoading] = useState(!isNew);
   const [validJson, setValidJson] = useState({ schema: true, config: true });
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  // Revision the edits are based on, sent as If-Match so concurrent saves are detected
+  const revisionRef = useRef<number | undefined>(undefined);
+  // The application as stored at that revision, to tell the user's edits apart on a conflict
+  const baseRef = useRef<Application | null>(null);
+  // Keep a ref in sync with the latest edits so saves always use the current value
+  const appRef = useRef(app);
+  useEffect(() => {
+    appRef.current = app;
+  }, [app]);
+  // The application as stored now, loaded when a save conflicts
+  const [latest, setLatest] = useState<Application | null>(null);
 
   useEffect(() => {
     if (!isNew) {
       fetchApplication();
+      fetchRevisions();
     }
   }, [applicationId]);
 
@@ -57,6 +92,8 @@ export default function ApplicationEdit() {
       const response = await fetch(`${getAdminApiBaseUrl()}/applications/${applicationId}`);
       if (!response.ok) throw new Error('Failed to fetch application');
       const data = await response.json();
+      revisionRef.current = data.revision;
+      baseRef.current = data;
       setApp(data);
     } catch (err) {
       setSaveError(err instanceof Error ? err.message : 'Unknown error');
@@ -65,6 +102,35 @@ export default function ApplicationEdit() {
     }
   };
 
+  const fetchRevisions = async () => {
+    try {
+      const response = await fetch(`${getAdminApiBaseUrl()}/applications/${applicationId}/revisions`);
+      if (!response.ok) throw new Error('Failed to fetch revisions');
+      setRevisions(await response.json());
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleRollback = async (revision: number) => {
+    if (!confirm(`Roll back to revision ${revision}?`)) return;
+
+    try {
+      const response = await fetch(
+        `${getAdminApiBaseUrl()}/applications/${applicationId}/revisions/${revision}/rollback`,
+        { method: 'POST' }
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to roll back');
+      }
+      await fetchApplication();
+      await fetchRevisions();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Rollback failed');
+    }
+  };
+
   const saveApplication = async () => {
     if (!validJson.schema || !validJson.config) {
       throw new Error('Invalid JSON in schema or config');
@@ -75,12 +141,24 @@ export default function ApplicationEdit() {
       ? `${getAdminApiBaseUrl()}/applications` 
       : `${getAdminApiBaseUrl()}/applications/${applicationId}`;
 
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (!isNew && revisionRef.current !== undefined) {
+      headers['If-Match'] = `"${revisionRef.current}"`;
+    }
+
+    // Read keys change through their own endpoints; sending them back could restore revoked ones
+    const { readKeys, ...body } = appRef.current;
     const response = await fetch(url, {
       method,
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(app)
+      headers,
+      body: JSON.stringify(body)
     });
 
+    if (response.status === 412) {
+      const error = await response.json();
+      throw new SaveConflictError(error.error, error.currentRevision);
+    }
+
     if (!response.ok) {
       const error = await response.json();
       if (error.errors) {
@@ -92,10 +170,47 @@ export default function ApplicationEdit() {
     if (isNew) {
       const created = await response.json();
       navigate(`/applications/${created.applicationId}`, { replace: true });
+    } else {
+      const saved = await response.json();
+      revisionRef.current = saved.revision;
+      baseRef.current = saved;
+      await fetchRevisions();
     }
   };
 
-  const { triggerSave, saveOnBlur, status, error } = useAutosave(saveApplication);
+  const { triggerSave, saveOnBlur, executeSave, resetStatus, status, error } = useAutosave(saveApplication);
+
+  useEffect(() => {
+    if (status !== 'conflict') return;
+    setLatest(null);
+    fetch(`${getAdminApiBaseUrl()}/applications/${applicationId}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to fetch application');
+        setLatest(await response.json());
+      })
+      .catch((err) => alert(err instanceof Error ? err.message : 'Load failed'));
+  }, [status]);
+
+  const handleConflictReload = async () => {
+    resetStatus();
+    await fetchApplication();
+    await fetchRevisions();
+  };
+
+  // Re-apply only the fields the user edited onto the latest revision, then save against it
+  const handleConflictMerge = async () => {
+    if (!latest || !baseRef.current) return;
+    const merged = mergeEdits(baseRef.current, appRef.current, latest, EDITABLE_FIELDS);
+    revisionRef.current = latest.revision;
+    baseRef.current = latest;
+    appRef.current = merged;
+    setApp(merged);
+    resetStatus();
+    await executeSave();
+  };
+
+  const conflictEdits: EditedField[] | null =
+    latest && baseRef.current ? editedFields(baseRef.current, app, latest, EDITABLE_FIELDS) : null;
 
   const handleDelete = async (configName: string) => {
     if (!confirm(`Delete configuration "${configName}"?`)) return;
@@ -107,6 +222,7 @@ export default function ApplicationEdit() {
       );
       if (!response.ok) throw new Error('Failed to delete');
       await fetchApplication();
+      await fetchRevisions();
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Delete failed');
     }
@@ -124,7 +240,8 @@ export default function ApplicationEdit() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             name,
-            data: app.defaultConfig.data,
+            // In merge mode a named config only holds overrides of the default
+            data: app.namedConfigMode === 'merge' ? {} : app.defaultConfig.data,
             versions: []
           })
         }
@@ -134,6 +251,7 @@ export default function ApplicationEdit() {
         throw new Error(error.error || 'Failed to create');
       }
       await fetchApplication();
+      await fetchRevisions();
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Create failed');
     }
@@ -178,12 +296,14 @@ export default function ApplicationEdit() {
               <label className="block text-sm font-medium text-gray-700">
                 Named Configurations
               </label>
-              <button
-                onClick={handleCreateConfig}
-                className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
-              >
-                Create New
-              </button>
+              {canEdit && (
+                <button
+                  onClick={handleCreateConfig}
+                  className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  Create New
+                </button>
+              )}
             </div>
             <div className="space-y-2">
               {Object.entries(app.namedConfigs).map(([name, config]) => (
@@ -197,15 +317,46 @@ export default function ApplicationEdit() {
                   <span className="text-sm text-gray-500">
                     {config.versions.length} version{config.versions.length !== 1 ? 's' : ''}
                   </span>
-                  <button
-                    onClick={() => handleDelete(name)}
-                    className="text-sm text-red-600 hover:text-red-800"
-                  >
-                    Delete
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleDelete(name)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!app.allowVersionOverlap}
+                disabled={!canEdit}
+                onChange={(e) => {
+                  setApp({ ...app, allowVersionOverlap: e.target.checked });
+                  triggerSave();
+                }}
+                onBlur={saveOnBlur}
+              />
+              Allow overlapping versions (exact versions win over ranges, then configs are taken in name order)
+            </label>
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              Named configs
+              <select
+                value={app.namedConfigMode || 'replace'}
+                disabled={!canEdit}
+                onChange={(e) => {
+                  setApp({ ...app, namedConfigMode: e.target.value as 'replace' | 'merge' });
+                  triggerSave();
+                }}
+                onBlur={saveOnBlur}
+                className="px-2 py-1 border border-gray-300 rounded-md"
+              >
+                <option value="replace">replace the default configuration</option>
+                <option value="merge">hold overrides deep-merged over the default (arrays are replaced)</option>
+              </select>
+            </label>
           </div>
         )}
 
@@ -215,6 +366,7 @@ export default function ApplicationEdit() {
           </label>
           <JsonEditor
             value={app.schema}
+            readOnly={!canOwn}
             onChange={(value, isValid) => {
               setValidJson({ ...validJson, schema: isValid });
               if (isValid) {
@@ -232,6 +384,7 @@ export default function ApplicationEdit() {
           </label>
           <JsonEditor
             value={app.defaultConfig.data}
+            readOnly={!canEdit}
             onChange={(value, isValid) => {
               setValidJson({ ...validJson, config: isValid });
               if (isValid) {
@@ -243,6 +396,82 @@ export default function ApplicationEdit() {
           />
         </div>
 
+        {!isNew && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Read Keys
+            </label>
+            <label className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!app.public}
+                disabled={!canOwn}
+                onChange={(e) => {
+                  setApp({ ...app, public: e.target.checked });
+                  triggerSave();
+                }}
+                onBlur={saveOnBlur}
+              />
+              Public: serve the configuration without a read key
+            </label>
+            <ReadKeyManager
+              applicationId={applicationId!}
+              readKeys={app.readKeys}
+              canManage={canOwn}
+              onChange={async () => {
+                await fetchApplication();
+                await fetchRevisions();
+              }}
+            />
+          </div>
+        )}
+
+        {!isNew && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Test a Version
+            </label>
+            <VersionTester applicationId={applicationId!} />
+          </div>
+        )}
+
+        {!isNew && revisions.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Revision History
+            </label>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {revisions.map((revision, index) => (
+                <div key={revision.revision} className="flex items-center gap-4 p-3 bg-gray-50 rounded text-sm">
+                  <span className="font-medium text-gray-900">#{revision.revision}</span>
+                  <span className="flex-1 text-gray-500">
+                    {new Date(revision.timestamp).toLocaleString()} by {revision.author}
+                  </span>
+                  {index === 0 ? (
+                    <span className="text-gray-400">current</span>
+                  ) : canOwn && (
+                    <button
+                      onClick={() => handleRollback(revision.revision)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Roll back
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {status === 'conflict' && (
+          <ConflictPrompt
+            message={error}
+            edits={conflictEdits}
+            onReload={handleConflictReload}
+            onMerge={handleConflictMerge}
+          />
+        )}
+
         <div className="flex items-center gap-4 pt-4">
           <button
             onClick={() => navigate('/')}
@@ -3,7 +3,8 @@
 import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import SemverList from './SemverList';
-import { useAutosave } from '../hooks/useAutosave';
+import { useAutosave, SaveConflictError } from '../hooks/useAutosave';
+import { useCurrentUser, type AdminRole } from '../hooks/useCurrentUser';
 import { getAdminApiBaseUrl } from '../config';
 
 interface Application {
@@ -13,6 +14,7 @@ interface Application {
   defaultConfig: { data: any };
   schema: any;
   lastUpdated: string;
+  revision?: number;
 }
 
 export default function ApplicationList() {
@@ -20,6 +22,7 @@ export default function ApplicationList() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
+  const { can, canCreateApplications } = useCurrentUser();
 
   const fetchApplications = async () => {
     try {
@@ -74,13 +77,21 @@ export default function ApplicationList() {
 
     const response = await fetch(`${getAdminApiBaseUrl()}/applications/${applicationId}/configs/${configName}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        ...(app.revision !== undefined ? { 'If-Match': `"${app.revision}"` } : {})
+      },
       body: JSON.stringify({
         data: app.namedConfigs[configName].data,
         versions
       })
     });
 
+    if (response.status === 412) {
+      const error = await response.json();
+      throw new SaveConflictError(error.error, error.currentRevision);
+    }
+
     if (!response.ok) {
       const error = await response.json();
       throw new Error(error.error || 'Update failed');
@@ -103,12 +114,19 @@ export default function ApplicationList() {
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Applications</h1>
-        <button
-          onClick={() => navigate('/applications/new')}
-          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-        >
-          Create Application
-        </button>
+        <div className="flex items-center gap-4">
+          <Link to="/tokens" className="text-blue-600 hover:underline">
+            API Tokens
+          </Link>
+          {canCreateApplications && (
+            <button
+              onClick={() => navigate('/applications/new')}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Create Application
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="space-y-4">
@@ -116,8 +134,10 @@ export default function ApplicationList() {
           <ApplicationCard
             key={app.applicationId}
             app={app}
+            can={can}
             onArchive={handleArchive}
             onUpdateVersions={updateNamedConfigVersions}
+            onReload={fetchApplications}
           />
         ))}
       </div>
@@ -134,12 +154,14 @@ export default function ApplicationList() {
                 >
                   {app.applicationId}
                 </Link>
-                <button
-                  onClick={() => handleUnarchive(app.applicationId)}
-                  className="text-sm text-gray-600 hover:text-gray-800"
-                >
-                  Unarchive
-                </button>
+                {can(app.applicationId, 'owner') && (
+                  <button
+                    onClick={() => handleUnarchive(app.applicationId)}
+                    className="text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    Unarchive
+                  </button>
+                )}
               </div>
             ))}
           </div>
@@ -151,12 +173,16 @@ export default function ApplicationList() {
 
 function ApplicationCard({ 
   app, 
+  can,
   onArchive, 
-  onUpdateVersions 
+  onUpdateVersions,
+  onReload
 }: { 
   app: Application;
+  can: (applicationId: string, role: AdminRole) => boolean;
   onArchive: (id: string) => void;
   onUpdateVersions: (appId: string, configName: string, versions: string[]) => Promise<void>;
+  onReload: () => Promise<void>;
 }) {
   return (
     <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
@@ -167,12 +193,14 @@ function ApplicationCard({
         >
           {app.applicationId}
         </Link>
-        <button
-          onClick={() => onArchive(app.applicationId)}
-          className="text-sm text-red-600 hover:text-red-800"
-        >
-          Archive
-        </button>
+        {can(app.applicationId, 'owner') && (
+          <button
+            onClick={() => onArchive(app.applicationId)}
+            className="text-sm text-red-600 hover:text-red-800"
+          >
+            Archive
+          </button>
+        )}
       </div>
 
       <div className="space-y-3">
@@ -182,7 +210,9 @@ function ApplicationCard({
             applicationId={app.applicationId}
             name={name}
             config={config}
+            readOnly={!can(app.applicationId, 'editor')}
             onUpdateVersions={onUpdateVersions}
+            onReload={onReload}
           />
         ))}
       </div>
@@ -194,14 +224,18 @@ function NamedConfigRow({
   applicationId, 
   name, 
   config,
-  onUpdateVersions 
+  readOnly,
+  onUpdateVersions,
+  onReload
 }: { 
   applicationId: string;
   name: string;
   config: { data: any; versions: string[] };
+  readOnly: boolean;
   onUpdateVersions: (appId: string, configName: string, versions: string[]) => Promise<void>;
+  onReload: () => Promise<void>;
 }) {
-  const { triggerSave, saveOnBlur, executeSave, status, error } = useAutosave(
+  const { triggerSave, saveOnBlur, executeSave, resetStatus, status, error } = useAutosave(
     () => onUpdateVersions(applicationId, name, config.versions)
   );
 
@@ -217,6 +251,7 @@ function NamedConfigRow({
         <div className="flex-1">
           <SemverList
             versions={config.versions}
+            readOnly={readOnly}
             onChange={(versions) => {
               config.versions = versions;
               triggerSave();
@@ -231,6 +266,20 @@ function NamedConfigRow({
         {status === 'saving' && <span className="text-sm text-gray-500">Saving...</span>}
         {status === 'saved' && <span className="text-sm text-green-600">Saved</span>}
         {status === 'error' && <span className="text-sm text-red-600">{error}</span>}
+        {status === 'conflict' && (
+          <span className="text-sm text-yellow-700">
+            Changed by someone else.{' '}
+            <button
+              onClick={async () => {
+                resetStatus();
+                await onReload();
+              }}
+              className="text-blue-600 hover:underline"
+            >
+              Reload
+            </button>
+          </span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,79 @@
+// Prompt shown when an autosave was rejected because someone else changed the application first
+import React from 'react';
+
+// A field the user edited, and whether the save that got in first changed it too
+export interface EditedField {
+  field: string;
+  changedByOthers: boolean;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// The fields edited since `base` (the copy the edits started from), compared with the copy now stored
+export function editedFields<T>(base: T, mine: T, latest: T, fields: (keyof T)[]): EditedField[] {
+  return fields
+    .filter((field) => !same(base[field], mine[field]))
+    .map((field) => ({ field: String(field), changedByOthers: !same(base[field], latest[field]) }));
+}
+
+// The latest copy with only the edited fields taken from mine, so other changes are kept
+export function mergeEdits<T>(base: T, mine: T, latest: T, fields: (keyof T)[]): T {
+  const merged = { ...latest };
+  for (const field of fields) {
+    if (!same(base[field], mine[field])) {
+      merged[field] = mine[field];
+    }
+  }
+  return merged;
+}
+
+interface ConflictPromptProps {
+  message?: string | null;
+  // Null while the latest copy is being loaded
+  edits: EditedField[] | null;
+  onReload: () => void;
+  onMerge: () => void;
+}
+
+export default function ConflictPrompt({ message, edits, onReload, onMerge }: ConflictPromptProps) {
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-300 rounded-md text-sm">
+      <p className="font-medium text-yellow-800">
+        This application was changed by someone else since you loaded it. Your changes have not been saved.
+      </p>
+      {message && <p className="mt-1 text-yellow-700">{message}</p>}
+      {edits === null && <p className="mt-2 text-gray-600">Loading the latest version...</p>}
+      {edits && edits.length === 0 && <p className="mt-2 text-gray-700">None of your edits differ from the latest version.</p>}
+      {edits && edits.length > 0 && (
+        <div className="mt-2 text-gray-700">
+          <p>Merging applies your edits to the latest version and keeps everything else from it:</p>
+          <ul className="mt-1 list-disc list-inside">
+            {edits.map((edit) => (
+              <li key={edit.field}>
+                <code>{edit.field}</code>
+                {edit.changedByOthers && (
+                  <span className="text-red-700"> (also changed by someone else: yours replaces theirs)</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={onReload}
+          className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          Reload latest (discard my edits)
+        </button>
+        <button
+          onClick={onMerge}
+          disabled={edits === null}
+          className="px-3 py-1 text-yellow-800 border border-yellow-400 rounded hover:bg-yellow-100 disabled:opacity-50"
+        >
+          Merge my edits into the latest
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ interface JsonEditorProps {
   className?: string;
   placeholder?: string;
   onBlur?: () => void;
+  readOnly?: boolean;
 }
 
 export default function JsonEditor({ 
@@ -15,7 +16,8 @@ export default function JsonEditor({
   onChange, 
   className = '', 
   placeholder = '{}',
-  onBlur 
+  onBlur,
+  readOnly = false
 }: JsonEditorProps) {
   const [text, setText] = useState('');
   const [error, setError] = useState('');
@@ -50,6 +52,7 @@ export default function JsonEditor({
         onChange={handleChange}
         onBlur={onBlur}
         placeholder={placeholder}
+        readOnly={readOnly}
         className={`
           json-editor w-full p-3 border rounded-md bg-gray-900 text-gray-100
           ${error ? 'border-red-500' : 'border-gray-300'}
@@ -4,17 +4,32 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import JsonEditor from './JsonEditor';
 import SemverList from './SemverList';
-import { useAutosave } from '../hooks/useAutosave';
+import ConflictPrompt, { editedFields, mergeEdits, type EditedField } from './ConflictPrompt';
+import { useAutosave, SaveConflictError } from '../hooks/useAutosave';
+import { useCurrentUser } from '../hooks/useCurrentUser';
 import { getAdminApiBaseUrl } from '../config';
 
+interface NamedConfig {
+  data: any;
+  versions: string[];
+}
+
+const EDITABLE_FIELDS: (keyof NamedConfig)[] = ['data', 'versions'];
+
 export default function NamedConfigEdit() {
   const { applicationId, configName } = useParams();
   const navigate = useNavigate();
   const isNew = configName === 'new';
+  const { can } = useCurrentUser();
+  const readOnly = !can(applicationId!, 'editor');
 
   const [app, setApp] = useState<any>(null);
   const [name, setName] = useState('');
-  const [data, setData] = useState({});
+  const [data, setData] = useState<any>({});
+  const dataRef = useRef<any>({});
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
   const [versions, setVersions] = useState<string[]>([]);
   // Keep a ref in sync with the latest versions so saves always use the current value
   const versionsRef = useRef<string[]>([]);
@@ -22,6 +37,13 @@ export default function NamedConfigEdit() {
     versionsRef.current = versions;
   }, [versions]);
 
+  // Application revision the edits are based on, sent as If-Match so concurrent saves are detected
+  const revisionRef = useRef<number | undefined>(undefined);
+  // The named config as stored at that revision, to tell the user's edits apart on a conflict
+  const baseRef = useRef<NamedConfig | null>(null);
+  // The named config as stored now, loaded when a save conflicts
+  const [latest, setLatest] = useState<{ revision?: number; config: NamedConfig } | null>(null);
+
   const [validJson, setValidJson] = useState(true);
   const [loading, setLoading] = useState(true);
 
@@ -34,18 +56,20 @@ export default function NamedConfigEdit() {
       const response = await fetch(`${getAdminApiBaseUrl()}/applications/${applicationId}`);
       if (!response.ok) throw new Error('Failed to fetch application');
       const appData = await response.json();
+      revisionRef.current = appData.revision;
       setApp(appData);
 
       if (!isNew && appData.namedConfigs[configName!]) {
         const config = appData.namedConfigs[configName!];
+        baseRef.current = config;
         setName(configName!);
         setData(config.data);
         setVersions(config.versions);
       } else if (!isNew) {
         throw new Error('Configuration not found');
       } else {
-        // For new config, seed with default config
-        setData(appData.defaultConfig.data);
+        // For new config, seed with default config (or no overrides in merge mode)
+        setData(appData.namedConfigMode === 'merge' ? {} : appData.defaultConfig.data);
       }
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Load failed');
@@ -67,15 +91,25 @@ export default function NamedConfigEdit() {
 
     const currentVersions = versionsRef.current;
     const body = isNew
-      ? { name, data, versions: currentVersions }
-      : { data, versions: currentVersions };
+      ? { name, data: dataRef.current, versions: currentVersions }
+      : { data: dataRef.current, versions: currentVersions };
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (!isNew && revisionRef.current !== undefined) {
+      headers['If-Match'] = `"${revisionRef.current}"`;
+    }
 
     const response = await fetch(url, {
       method,
-      headers: { 'Content-Type': 'application/json' },
+      headers,
       body: JSON.stringify(body)
     });
 
+    if (response.status === 412) {
+      const error = await response.json();
+      throw new SaveConflictError(error.error, error.currentRevision);
+    }
+
     if (!response.ok) {
       const error = await response.json();
       if (error.errors) {
@@ -84,12 +118,52 @@ export default function NamedConfigEdit() {
       throw new Error(error.error || 'Save failed');
     }
 
+    const saved = await response.json();
+    revisionRef.current = saved.revision;
+    baseRef.current = saved.namedConfigs?.[isNew ? name : configName!] ?? null;
+
     if (isNew) {
       navigate(`/applications/${applicationId}/configs/${name}`, { replace: true });
     }
   };
 
-  const { triggerSave, saveOnBlur, executeSave, status, error } = useAutosave(saveConfig);
+  const { triggerSave, saveOnBlur, executeSave, resetStatus, status, error } = useAutosave(saveConfig);
+
+  const handleConflictReload = async () => {
+    resetStatus();
+    await fetchApplication();
+  };
+
+  useEffect(() => {
+    if (status !== 'conflict') return;
+    setLatest(null);
+    fetch(`${getAdminApiBaseUrl()}/applications/${applicationId}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to fetch application');
+        const appData = await response.json();
+        const config = appData.namedConfigs[configName!];
+        if (!config) throw new Error('Configuration was deleted by someone else');
+        setLatest({ revision: appData.revision, config });
+      })
+      .catch((err) => alert(err instanceof Error ? err.message : 'Load failed'));
+  }, [status]);
+
+  // Re-apply only the fields the user edited onto the latest revision, then save against it
+  const handleConflictMerge = async () => {
+    if (!latest || !baseRef.current) return;
+    const merged = mergeEdits(baseRef.current, { data: dataRef.current, versions: versionsRef.current }, latest.config, EDITABLE_FIELDS);
+    revisionRef.current = latest.revision;
+    baseRef.current = latest.config;
+    dataRef.current = merged.data;
+    versionsRef.current = merged.versions;
+    setData(merged.data);
+    setVersions(merged.versions);
+    resetStatus();
+    await executeSave();
+  };
+
+  const conflictEdits: EditedField[] | null =
+    latest && baseRef.current ? editedFields(baseRef.current, { data, versions }, latest.config, EDITABLE_FIELDS) : null;
 
   if (loading) return <div className="text-center py-4">Loading...</div>;
   if (!app) return null;
@@ -134,6 +208,7 @@ export default function NamedConfigEdit() {
           </label>
           <SemverList
             versions={versions}
+            readOnly={readOnly}
             onChange={(newVersions) => {
               versionsRef.current = newVersions; // Update ref immediately
               setVersions(newVersions);
@@ -150,10 +225,11 @@ export default function NamedConfigEdit() {
 
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Configuration Data
+            {app.namedConfigMode === 'merge' ? 'Overrides (deep-merged over the default configuration)' : 'Configuration Data'}
           </label>
           <JsonEditor
             value={data}
+            readOnly={readOnly}
             onChange={(value, isValid) => {
               setValidJson(isValid);
               if (isValid) {
@@ -165,6 +241,15 @@ export default function NamedConfigEdit() {
           />
         </div>
 
+        {status === 'conflict' && (
+          <ConflictPrompt
+            message={error}
+            edits={conflictEdits}
+            onReload={handleConflictReload}
+            onMerge={handleConflictMerge}
+          />
+        )}
+
         <div className="flex items-center gap-4 pt-4">
           <button
             onClick={() => navigate(`/applications/${applicationId}`)}
@@ -0,0 +1,127 @@
+// Panel managing the read keys clients send to the public config API: create, rotate with an overlap, revoke
+import React, { useState } from 'react';
+import { getAdminApiBaseUrl } from '../config';
+
+export interface ReadKey {
+  id: string;
+  name?: string;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+interface Props {
+  applicationId: string;
+  readKeys?: ReadKey[];
+  canManage: boolean;
+  onChange: () => Promise<void>;
+}
+
+const DEFAULT_OVERLAP_HOURS = 24;
+
+export default function ReadKeyManager({ applicationId, readKeys, canManage, onChange }: Props) {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [overlapHours, setOverlapHours] = useState(DEFAULT_OVERLAP_HOURS);
+  const baseUrl = `${getAdminApiBaseUrl()}/applications/${applicationId}/read-keys`;
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    try {
+      const response = await fetch(url, init);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || failure);
+      }
+      if (response.status === 201) {
+        setSecret((await response.json()).secret);
+      }
+      await onChange();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = prompt('Key name (e.g. the client using it):');
+    if (name === null) return;
+    await request(
+      baseUrl,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ name }) },
+      'Create failed'
+    );
+  };
+
+  const handleRotate = async (key: ReadKey) => {
+    if (!confirm(`Rotate ${key.name || key.id}? The current key keeps working for ${overlapHours} hour(s).`)) return;
+    await request(
+      `${baseUrl}/${key.id}/rotate`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overlapSeconds: overlapHours * 3600 }),
+      },
+      'Rotate failed'
+    );
+  };
+
+  const handleRevoke = async (key: ReadKey) => {
+    if (!confirm(`Revoke ${key.name || key.id}? Clients using it are refused at once.`)) return;
+    await request(`${baseUrl}/${key.id}`, { method: 'DELETE' }, 'Revoke failed');
+  };
+
+  const keys = readKeys ?? [];
+
+  return (
+    <div className="space-y-2">
+      {secret && (
+        <div className="p-3 bg-yellow-50 border border-yellow-300 rounded-md text-sm">
+          <p className="text-gray-800 mb-2">Copy the key now, it will not be shown again:</p>
+          <code className="block p-2 bg-white border border-gray-200 rounded break-all">{secret}</code>
+          <button onClick={() => setSecret(null)} className="mt-2 text-gray-600 hover:text-gray-800">
+            Done
+          </button>
+        </div>
+      )}
+      {keys.length === 0 && (
+        <p className="text-sm text-gray-500">
+          {readKeys ? 'No key is active: clients are refused unless the application is public.' : 'No read keys yet.'}
+        </p>
+      )}
+      {keys.map((key) => (
+        <div key={key.id} className="flex items-center gap-4 p-3 bg-gray-50 rounded text-sm">
+          <span className="font-medium text-gray-900">{key.name || key.id}</span>
+          <span className="flex-1 text-gray-500">
+            created {new Date(key.createdAt).toLocaleString()}
+            {key.expiresAt && `, rotated out, expires ${new Date(key.expiresAt).toLocaleString()}`}
+          </span>
+          {canManage && !key.expiresAt && (
+            <button onClick={() => handleRotate(key)} className="text-blue-600 hover:text-blue-800">
+              Rotate
+            </button>
+          )}
+          {canManage && (
+            <button onClick={() => handleRevoke(key)} className="text-red-600 hover:text-red-800">
+              Revoke
+            </button>
+          )}
+        </div>
+      ))}
+      {canManage && (
+        <div className="flex items-center gap-4 text-sm">
+          <button onClick={handleCreate} className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">
+            Create Key
+          </button>
+          <label className="flex items-center gap-2 text-gray-700">
+            Rotation overlap
+            <input
+              type="number"
+              min={0}
+              value={overlapHours}
+              onChange={(e) => setOverlapHours(Math.max(0, Number(e.target.value)))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+            />
+            hours
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 // 10 Lines by Claude Opus
-// Component for editing semver version lists
+// Component for editing lists of semver versions and ranges
 import React, { useState } from 'react';
 import * as semver from 'semver';
 
@@ -8,9 +8,13 @@ interface SemverListProps {
   onChange: (versions: string[]) => void;
   onBlur?: () => void;
   onImmediateChange?: (versions: string[]) => void;
+  readOnly?: boolean;
 }
 
-export default function SemverList({ versions, onChange, onBlur, onImmediateChange }: SemverListProps) {
+// Exact versions ("1.2.3") or ranges (">=2.3.0 <3.0.0", "~4.1")
+const isValidEntry = (entry: string): boolean => semver.validRange(entry) !== null;
+
+export default function SemverList({ versions, onChange, onBlur, onImmediateChange, readOnly = false }: SemverListProps) {
   const [inputValue, setInputValue] = useState('');
   const [error, setError] = useState('');
 
@@ -18,8 +22,8 @@ export default function SemverList({ versions, onChange, onBlur, onImmediateChan
     const trimmed = inputValue.trim();
     if (!trimmed) return;
 
-    if (!semver.valid(trimmed)) {
-      setError(`Invalid semver: ${trimmed}`);
+    if (!isValidEntry(trimmed)) {
+      setError(`Invalid semver version or range: ${trimmed}`);
       return;
     }
 
@@ -53,7 +57,7 @@ export default function SemverList({ versions, onChange, onBlur, onImmediateChan
   const handleBlur = () => {
     // Try to add the current input value if it's valid
     const trimmed = inputValue.trim();
-    if (trimmed && semver.valid(trimmed) && !versions.includes(trimmed)) {
+    if (trimmed && isValidEntry(trimmed) && !versions.includes(trimmed)) {
       handleAdd();
     }
     // Always call the parent's onBlur handler
@@ -71,18 +75,20 @@ export default function SemverList({ versions, onChange, onBlur, onImmediateChan
             className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800"
           >
             {version}
-            <button
-              type="button"
-              onClick={() => handleRemove(version)}
-              className="ml-2 text-blue-600 hover:text-blue-800"
-            >
-              ×
-            </button>
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => handleRemove(version)}
+                className="ml-2 text-blue-600 hover:text-blue-800"
+              >
+                ×
+              </button>
+            )}
           </span>
         ))}
       </div>
       
-      <div className="flex gap-2">
+      {!readOnly && <div className="flex gap-2">
         <input
           type="text"
           value={inputValue}
@@ -92,7 +98,7 @@ export default function SemverList({ versions, onChange, onBlur, onImmediateChan
           }}
           onKeyPress={handleKeyPress}
           onBlur={handleBlur}
-          placeholder="x.y.z"
+          placeholder="x.y.z or range (>=2.3.0 <3.0.0, ~4.1)"
           className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
         <button
@@ -102,7 +108,7 @@ export default function SemverList({ versions, onChange, onBlur, onImmediateChan
         >
           Add
         </button>
-      </div>
+      </div>}
       
       {error && (
         <p className="text-sm text-red-600">{error}</p>
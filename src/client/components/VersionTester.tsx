@@ -0,0 +1,90 @@
+// Panel for checking which configuration a client version resolves to
+import React, { useState } from 'react';
+import { getAdminApiBaseUrl } from '../config';
+
+interface Resolution {
+  version: string;
+  archived: boolean;
+  source: 'named' | 'default';
+  configName?: string;
+  matchedVersion?: string;
+  cacheControl: string;
+  data: any;
+}
+
+export default function VersionTester({ applicationId }: { applicationId: string }) {
+  const [version, setVersion] = useState('');
+  const [resolution, setResolution] = useState<Resolution | null>(null);
+  const [error, setError] = useState('');
+
+  const handleResolve = async () => {
+    const trimmed = version.trim();
+    if (!trimmed) return;
+
+    try {
+      const response = await fetch(
+        `${getAdminApiBaseUrl()}/applications/${applicationId}/resolve?version=${encodeURIComponent(trimmed)}`
+      );
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Resolve failed');
+      setResolution(result);
+      setError('');
+    } catch (err) {
+      setResolution(null);
+      setError(err instanceof Error ? err.message : 'Resolve failed');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={version}
+          onChange={(e) => setVersion(e.target.value)}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleResolve();
+            }
+          }}
+          placeholder="x.y.z"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={handleResolve}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Test
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {resolution && (
+        <div className="p-3 bg-gray-50 rounded text-sm space-y-1">
+          {resolution.archived && (
+            <p className="text-red-600">Application is archived: clients receive 404 for every version.</p>
+          )}
+          <p>
+            {resolution.source === 'named' ? (
+              <>
+                Served by <span className="font-medium">{resolution.configName}</span> (matched{' '}
+                <code>{resolution.matchedVersion}</code>)
+              </>
+            ) : (
+              <>No named config matches: served the default configuration</>
+            )}
+          </p>
+          <p className="text-gray-500">
+            Cache-Control: <code>{resolution.cacheControl}</code>
+          </p>
+          <pre className="json-editor p-3 rounded-md bg-gray-900 text-gray-100 overflow-x-auto">
+            {JSON.stringify(resolution.data, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
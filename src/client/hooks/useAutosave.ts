@@ -2,11 +2,19 @@
 // Hook for implementing autosave functionality with debouncing and blur support
 import { useEffect, useRef, useState, useCallback } from "react";
 
+// Thrown by save functions when the server rejects a write because someone else saved first (HTTP 412)
+export class SaveConflictError extends Error {
+  constructor(message: string, public currentRevision?: number) {
+    super(message);
+    this.name = "SaveConflictError";
+  }
+}
+
 export function useAutosave(
   saveFunction: () => Promise<void>,
   delay: number = 1000 // Changed default to 10 seconds
 ) {
-  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error" | "conflict">("idle");
   const [error, setError] = useState<string | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout>();
   const isSavingRef = useRef(false);
@@ -25,7 +33,7 @@ export function useAutosave(
       // Reset to idle after showing saved status
       setTimeout(() => setStatus("idle"), 2000);
     } catch (err) {
-      setStatus("error");
+      setStatus(err instanceof SaveConflictError ? "conflict" : "error");
       setError(err instanceof Error ? err.message : "Save failed");
     } finally {
       isSavingRef.current = false;
@@ -47,6 +55,14 @@ export function useAutosave(
     executeSave();
   }, [executeSave]);
 
+  const resetStatus = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+    }
+    setStatus("idle");
+    setError(null);
+  }, []);
+
   useEffect(() => {
     return () => {
       if (timeoutRef.current) {
@@ -55,5 +71,5 @@ export function useAutosave(
     };
   }, []);
 
-  return { triggerSave, saveOnBlur, executeSave, status, error };
+  return { triggerSave, saveOnBlur, executeSave, resetStatus, status, error };
 }
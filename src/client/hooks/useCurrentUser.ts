@@ -0,0 +1,50 @@
+// Hook exposing the signed-in admin user and what their per-application roles allow
+import { useEffect, useState } from 'react';
+import { getAdminApiBaseUrl } from '../config';
+
+export type AdminRole = 'viewer' | 'editor' | 'owner';
+
+interface CurrentUser {
+  username: string;
+  roles: Record<string, AdminRole>; // By applicationId, "*" for the applications without their own entry
+}
+
+const RANK: Record<AdminRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+// Fetched once per page load and shared by every component
+let currentUser: Promise<CurrentUser> | undefined;
+
+export function useCurrentUser() {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    currentUser ??= fetch(`${getAdminApiBaseUrl()}/me`).then((response) => {
+      if (!response.ok) throw new Error('Failed to fetch the current user');
+      return response.json();
+    });
+    currentUser.then(
+      (loaded) => active && setUser(loaded),
+      () => {
+        currentUser = undefined; // Retried by the next component mounting
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Until the user is loaded nothing is allowed, so actions appear rather than disappear
+  const can = (applicationId: string, role: AdminRole): boolean => {
+    if (!user) return false;
+    const granted = Object.prototype.hasOwnProperty.call(user.roles, applicationId)
+      ? user.roles[applicationId]
+      : user.roles['*'];
+    return granted !== undefined && RANK[granted] >= RANK[role];
+  };
+
+  // Creating an application takes the owner role on its id
+  const canCreateApplications = !!user && Object.values(user.roles).includes('owner');
+
+  return { user, can, canCreateApplications };
+}
@@ -0,0 +1,166 @@
+// Verification of JWTs issued by an OpenID Connect provider, against the keys of its JSON Web Key Set
+import { Effect } from "effect";
+import { constants, createPublicKey, verify, type JsonWebKey } from "node:crypto";
+import fs from "node:fs/promises";
+import { JwtVerificationError, type OidcOptions } from "../types.js";
+
+export type JwtClaims = Record<string, unknown>;
+
+interface Algorithm {
+  hash: string | null; // null for EdDSA, which hashes internally
+  kty: string;
+  pss?: boolean;
+  ec?: boolean;
+}
+
+// Asymmetric algorithms only: with "none" or a shared-secret HMAC anyone holding the JWKS could mint tokens
+const ALGORITHMS: Record<string, Algorithm> = {
+  RS256: { hash: "sha256", kty: "RSA" },
+  RS384: { hash: "sha384", kty: "RSA" },
+  RS512: { hash: "sha512", kty: "RSA" },
+  PS256: { hash: "sha256", kty: "RSA", pss: true },
+  PS384: { hash: "sha384", kty: "RSA", pss: true },
+  PS512: { hash: "sha512", kty: "RSA", pss: true },
+  ES256: { hash: "sha256", kty: "EC", ec: true },
+  ES384: { hash: "sha384", kty: "EC", ec: true },
+  ES512: { hash: "sha512", kty: "EC", ec: true },
+  EdDSA: { hash: null, kty: "OKP" },
+};
+
+// A token naming a key the cached set lacks (e.g. after a rotation) reloads the set, at most this often
+const JWKS_RELOAD_INTERVAL_MS = 30_000;
+const JWKS_FETCH_TIMEOUT_MS = 5_000;
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 30;
+
+export interface JwtVerifier {
+  // The claims of a JWT with a valid signature, issuer, audience and validity period
+  verify(jwt: string): Effect.Effect<JwtClaims, JwtVerificationError>;
+}
+
+const invalid = (message: string) => Effect.fail(new JwtVerificationError({ message }));
+
+const decodeSegment = (segment: string) =>
+  Effect.try({
+    try: () => JSON.parse(Buffer.from(segment, "base64url").toString("utf8")),
+    catch: () => new JwtVerificationError({ message: "Malformed JWT" }),
+  }).pipe(
+    Effect.filterOrFail(
+      (value): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value),
+      () => new JwtVerificationError({ message: "Malformed JWT" })
+    )
+  );
+
+const loadJwks = (location: string) =>
+  Effect.tryPromise({
+    try: async () => {
+      const text = /^https?:\/\//i.test(location)
+        ? await fetch(location, { signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS) }).then((response) => {
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            return response.text();
+          })
+        : await fs.readFile(location, "utf8");
+      const jwks = JSON.parse(text);
+      if (!Array.isArray(jwks?.keys)) throw new Error("no keys array");
+      return jwks.keys as JsonWebKey[];
+    },
+    catch: (error) =>
+      new JwtVerificationError({
+        message: `Could not load the JWKS from ${location}: ${error instanceof Error ? error.message : String(error)}`,
+      }),
+  });
+
+export function createJwtVerifier(oidc: OidcOptions): JwtVerifier {
+  const toleranceSeconds = oidc.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+  const audiences = oidc.audience === undefined ? undefined : [oidc.audience].flat();
+  let keys: JsonWebKey[] | undefined;
+  let reloadedAt = -Infinity;
+
+  const matches = (header: Record<string, unknown>, algorithm: Algorithm) => (key: JsonWebKey) =>
+    key.kty === algorithm.kty &&
+    (key.use === undefined || key.use === "sig") &&
+    (key.alg === undefined || key.alg === header.alg) &&
+    (header.kid === undefined || key.kid === header.kid);
+
+  const keysFor = (header: Record<string, unknown>, algorithm: Algorithm) =>
+    Effect.gen(function* () {
+      if (!keys) {
+        keys = yield* loadJwks(oidc.jwks);
+      } else if (!keys.some(matches(header, algorithm)) && Date.now() - reloadedAt >= JWKS_RELOAD_INTERVAL_MS) {
+        reloadedAt = Date.now();
+        const cached = keys;
+        keys = yield* loadJwks(oidc.jwks).pipe(Effect.orElseSucceed(() => cached));
+      }
+      return keys.filter(matches(header, algorithm));
+    });
+
+  const verifySignature = (jwt: string) =>
+    Effect.gen(function* () {
+      const segments = jwt.split(".");
+      if (segments.length !== 3) {
+        return yield* invalid("Malformed JWT");
+      }
+      const header = yield* decodeSegment(segments[0]);
+      const algorithm = ALGORITHMS[String(header.alg)];
+      if (!algorithm) {
+        return yield* invalid(`Unsupported JWT algorithm '${header.alg}'`);
+      }
+      const claims = yield* decodeSegment(segments[1]);
+      const candidates = yield* keysFor(header, algorithm);
+      if (candidates.length === 0) {
+        return yield* invalid(`No key of the JWKS matches the JWT (kid '${header.kid ?? ""}', alg ${header.alg})`);
+      }
+      const data = Buffer.from(`${segments[0]}.${segments[1]}`);
+      const signature = Buffer.from(segments[2], "base64url");
+      const valid = candidates.some((jwk) => {
+        try {
+          const key = createPublicKey({ key: jwk, format: "jwk" });
+          return verify(
+            algorithm.hash,
+            data,
+            {
+              key,
+              ...(algorithm.pss ? { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } : {}),
+              ...(algorithm.ec ? { dsaEncoding: "ieee-p1363" as const } : {}),
+            },
+            signature
+          );
+        } catch {
+          return false; // A key the runtime cannot import never verifies anything
+        }
+      });
+      if (!valid) {
+        return yield* invalid("Invalid JWT signature");
+      }
+      return claims;
+    });
+
+  const checkClaims = (claims: JwtClaims) => {
+    const now = Date.now() / 1000;
+    if (typeof claims.exp !== "number") {
+      return invalid("The JWT has no exp claim");
+    }
+    if (claims.exp + toleranceSeconds <= now) {
+      return invalid("The JWT has expired");
+    }
+    if (typeof claims.nbf === "number" && claims.nbf - toleranceSeconds > now) {
+      return invalid("The JWT is not valid yet");
+    }
+    if (typeof claims.iat === "number" && claims.iat - toleranceSeconds > now) {
+      return invalid("The JWT was issued in the future");
+    }
+    if (claims.iss !== oidc.issuer) {
+      return invalid(`The JWT was issued by '${claims.iss}', expected '${oidc.issuer}'`);
+    }
+    if (audiences) {
+      const audience = [claims.aud].flat();
+      if (!audience.some((value) => typeof value === "string" && audiences.includes(value))) {
+        return invalid("The JWT is meant for another audience");
+      }
+    }
+    return Effect.succeed(claims);
+  };
+
+  return {
+    verify: (jwt) => verifySignature(jwt).pipe(Effect.flatMap(checkClaims)),
+  };
+}
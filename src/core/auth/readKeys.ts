@@ -0,0 +1,83 @@
+// Per-application read keys of the public config API: generation, rotation and checking
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import type { AppConfig, ReadKey } from "../types.js";
+
+export const READ_KEY_HEADER = "X-Config-Key";
+export const READ_KEY_QUERY_PARAM = "key";
+
+// How long a rotated-out key keeps working unless the rotation says otherwise
+export const DEFAULT_ROTATION_OVERLAP_SECONDS = 24 * 60 * 60;
+
+// What the public API needs to know about an application to check a read key
+export type ReadAccess = Pick<AppConfig, "public" | "readKeys">;
+
+// A key read back from storage that keeps dates as strings
+export function reviveReadKey(raw: any): ReadKey {
+  return { ...raw, createdAt: new Date(raw.createdAt), ...(raw.expiresAt ? { expiresAt: new Date(raw.expiresAt) } : {}) };
+}
+
+const hashReadKey = (secret: string): string => createHash("sha256").update(secret).digest("hex");
+
+// A new key; the secret is only ever returned here
+export function generateReadKey(name?: string): { key: ReadKey; secret: string } {
+  const secret = `rk_${randomBytes(24).toString("base64url")}`;
+  const key: ReadKey = {
+    id: randomBytes(6).toString("hex"),
+    ...(name ? { name } : {}),
+    hash: hashReadKey(secret),
+    createdAt: new Date(),
+  };
+  return { key, secret };
+}
+
+// Keys still accepted, rotated-out ones included until their overlap ends. Storage may hand dates back as strings.
+export function activeReadKeys(access: ReadAccess, now = new Date()): ReadKey[] {
+  return (access.readKeys ?? []).filter((key) => !key.expiresAt || new Date(key.expiresAt).getTime() > now.getTime());
+}
+
+// Public applications never ask for a key; applications that ever had keys always do, so removing
+// the last key locks the application rather than opening it
+export function readKeyRequired(access: ReadAccess | null, requiredByDefault: boolean): boolean {
+  if (!access) {
+    return requiredByDefault; // Unknown applications answer like protected ones, not revealing which exist
+  }
+  return access.public !== true && (requiredByDefault || access.readKeys !== undefined);
+}
+
+export function matchesReadKey(access: ReadAccess, secret: string): boolean {
+  const actual = Buffer.from(hashReadKey(secret), "hex");
+  return activeReadKeys(access).some((key) => {
+    const expected = Buffer.from(key.hash, "hex");
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  });
+}
+
+// Keys of an application with one more, dropping those whose overlap has ended
+export function addReadKey(access: ReadAccess, key: ReadKey): ReadKey[] {
+  return [...activeReadKeys(access), key];
+}
+
+// Replaces a key by a new one with the same name; the old key keeps working for overlapSeconds
+export function rotateReadKey(
+  access: ReadAccess,
+  keyId: string,
+  overlapSeconds: number
+): { readKeys: ReadKey[]; key: ReadKey; secret: string } | undefined {
+  const current = activeReadKeys(access);
+  const rotated = current.find((key) => key.id === keyId);
+  if (!rotated) {
+    return undefined;
+  }
+  const { key, secret } = generateReadKey(rotated.name);
+  const expiresAt = new Date(Date.now() + overlapSeconds * 1000);
+  const readKeys = current.map((existing) =>
+    existing.id === keyId && (!existing.expiresAt || new Date(existing.expiresAt) > expiresAt) ? { ...existing, expiresAt } : existing
+  );
+  return { readKeys: [...readKeys, key], key, secret };
+}
+
+// Keys of an application without one, revoked at once
+export function removeReadKey(access: ReadAccess, keyId: string): ReadKey[] | undefined {
+  const current = activeReadKeys(access);
+  return current.some((key) => key.id === keyId) ? current.filter((key) => key.id !== keyId) : undefined;
+}
@@ -0,0 +1,161 @@
+// TypeScript declarations generated from an application's JSON Schema, for typed ConfigClient calls
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export interface TypeScriptDeclarationOptions {
+  typeName: string; // Name of the exported root type
+  header?: string; // Comment placed at the top of the file
+}
+
+// Type name for an application id, e.g. "my-app" -> "MyAppConfig"
+export function configTypeName(applicationId: string): string {
+  return `${pascalCase(applicationId) || "App"}Config`;
+}
+
+function pascalCase(value: string): string {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function docComment(schema: any, indent: string): string {
+  const text = [schema?.title, schema?.description].filter((part) => typeof part === "string" && part.trim()).join("\n\n");
+  if (!text) {
+    return "";
+  }
+  const lines = text.replace(/\*\//g, "*\\/").split("\n");
+  return lines.length === 1
+    ? `${indent}/** ${lines[0]} */\n`
+    : `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+}
+
+// Unions inside arrays and intersections need parentheses
+function wrap(type: string): string {
+  return /[|&]/.test(type) && !/^[{[(]/.test(type) ? `(${type})` : type;
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length === 0 ? "never" : unique.join(" | ");
+}
+
+// Declarations are written for schemas under $defs (2020-12) and definitions (draft-07)
+function definitionsOf(schema: any): Record<string, any> {
+  return { ...(schema?.definitions ?? {}), ...(schema?.$defs ?? {}) };
+}
+
+function refName(ref: string): string | undefined {
+  const match = /^#\/(?:\$defs|definitions)\/(.+)$/.exec(ref);
+  return match ? pascalCase(decodeURIComponent(match[1])) : undefined;
+}
+
+function objectType(schema: any, indent: string): string {
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  const inner = `${indent}  `;
+  const members = Object.entries<any>(schema.properties ?? {}).map(
+    ([key, property]) =>
+      `${docComment(property, inner)}${inner}${propertyKey(key)}${required.has(key) ? "" : "?"}: ${typeOf(property, inner)};`
+  );
+  // Additional properties only get an index signature when the schema declares them, so that objects listing
+  // their properties are typed strictly. Listed properties must fit the signature, hence unknown alongside them.
+  const additional = schema.additionalProperties;
+  if (additional === true || (additional && typeof additional === "object") || (schema.patternProperties && additional !== false)) {
+    const indexType = additional && typeof additional === "object" && members.length === 0 ? typeOf(additional, inner) : "unknown";
+    members.push(`${inner}[key: string]: ${indexType};`);
+  }
+  return members.length === 0 ? "{}" : `{\n${members.join("\n")}\n${indent}}`;
+}
+
+function arrayType(schema: any, indent: string): string {
+  // Tuples: prefixItems (2020-12) or an items array (draft-07)
+  const tuple = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : undefined;
+  if (tuple) {
+    const rest = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+    const elements = tuple.map((item: any) => typeOf(item, indent));
+    if (rest !== false && rest !== undefined) {
+      elements.push(`...${wrap(typeOf(rest === true ? {} : rest, indent))}[]`);
+    }
+    return `[${elements.join(", ")}]`;
+  }
+  return `${wrap(schema.items === undefined ? "unknown" : typeOf(schema.items, indent))}[]`;
+}
+
+function typeForName(type: string, schema: any, indent: string): string {
+  switch (type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array":
+      return arrayType(schema, indent);
+    case "object":
+      return objectType(schema, indent);
+    default:
+      return "unknown";
+  }
+}
+
+export function typeOf(schema: any, indent = ""): string {
+  if (schema === true || schema === undefined) {
+    return "unknown";
+  }
+  if (schema === false) {
+    return "never";
+  }
+  if (typeof schema.$ref === "string") {
+    return refName(schema.$ref) ?? "unknown";
+  }
+  if ("const" in schema) {
+    return JSON.stringify(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map((value: unknown) => JSON.stringify(value)));
+  }
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(alternatives)) {
+    return union(alternatives.map((alternative: any) => wrap(typeOf(alternative, indent))));
+  }
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.map((part: any) => wrap(typeOf(part, indent))).join(" & ");
+  }
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map((type: string) => typeForName(type, schema, indent)));
+  }
+  if (typeof schema.type === "string") {
+    return typeForName(schema.type, schema, indent);
+  }
+  if (schema.properties || schema.additionalProperties !== undefined) {
+    return objectType(schema, indent);
+  }
+  if (schema.items || schema.prefixItems) {
+    return arrayType(schema, indent);
+  }
+  return "unknown";
+}
+
+function declaration(name: string, schema: any): string {
+  const type = typeOf(schema);
+  // Object types are declared as interfaces, everything else as type aliases
+  return type.startsWith("{")
+    ? `${docComment(schema, "")}export interface ${name} ${type}\n`
+    : `${docComment(schema, "")}export type ${name} = ${type};\n`;
+}
+
+export function schemaToTypeScript(schema: any, options: TypeScriptDeclarationOptions): string {
+  const header = options.header ? `${options.header.split("\n").map((line) => `// ${line}`.trimEnd()).join("\n")}\n\n` : "";
+  const definitions = Object.entries(definitionsOf(schema)).map(([name, definition]) =>
+    declaration(pascalCase(name), definition)
+  );
+  return header + [declaration(options.typeName, schema), ...definitions].join("\n");
+}
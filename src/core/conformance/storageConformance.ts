@@ -0,0 +1,369 @@
+// Conformance suite exercising every ConfigStorageService method and error path against any storage layer
+import { Effect, Exit, Cause, Layer } from "effect";
+import type { AppConfig } from "../types.js";
+import { ConfigStorageService } from "../services/ConfigStorageService.js";
+
+export interface StorageConformanceResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface StorageConformanceOptions {
+  // Called with a line per case as it completes (defaults to no output)
+  log?: (message: string) => void;
+}
+
+interface ConformanceCase {
+  name: string;
+  run: (service: ConfigStorageService, applicationId: (suffix: string) => string) => Effect.Effect<void, unknown>;
+}
+
+const SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  properties: { label: { type: "string" }, limit: { type: "number" } },
+  required: ["label"],
+  additionalProperties: false,
+};
+
+const makeApp = (applicationId: string, overrides: Partial<AppConfig> = {}): AppConfig => ({
+  applicationId,
+  archived: false,
+  namedConfigs: {},
+  defaultConfig: { data: { label: "default", limit: 10 } },
+  schema: SCHEMA,
+  lastUpdated: new Date(),
+  ...overrides,
+});
+
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Runs the effect expecting it to fail with the given tag
+const expectFailure = <E extends { _tag: string }, T extends E["_tag"]>(effect: Effect.Effect<unknown, E>, tag: T) =>
+  Effect.gen(function* () {
+    const exit = yield* Effect.exit(effect);
+    if (Exit.isSuccess(exit)) {
+      throw new Error(`Expected ${tag}, but the call succeeded`);
+    }
+    const error = Cause.squash(exit.cause) as { _tag?: string };
+    check(error?._tag === tag, `Expected ${tag}, got ${error?._tag ?? String(error)}`);
+    return error as Extract<E, { _tag: T }>;
+  });
+
+const CASES: ConformanceCase[] = [
+  {
+    name: "reports health",
+    run: (service) =>
+      Effect.gen(function* () {
+        const health = yield* service.healthCheck();
+        check(health.healthy, `The backend should report itself healthy, got ${health.message}`);
+        check(typeof health.backend === "string" && health.backend !== "", "healthCheck should name the backend");
+        check(typeof health.latencyMs === "number" && health.latencyMs >= 0, "healthCheck should report a latency");
+      }),
+  },
+  {
+    name: "creates, lists and gets applications",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        const created = yield* service.createApplication(makeApp(id("create")));
+        check(created.revision === 1, `New applications should be at revision 1, got ${created.revision}`);
+        check(created.lastUpdated instanceof Date, "lastUpdated should be a Date");
+
+        const fetched = yield* service.getApplication(id("create"));
+        check(fetched?.defaultConfig.data.label === "default", "getApplication should return the stored application");
+        check((yield* service.getApplication(id("absent"))) === null, "getApplication should return null for unknown ids");
+
+        const all = yield* service.listApplications();
+        check(all.some((app) => app.applicationId === id("create")), "listApplications should include the new application");
+      }),
+  },
+  {
+    name: "rejects duplicate and invalid applications",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("duplicate")));
+        yield* expectFailure(service.createApplication(makeApp(id("duplicate"))), "ApplicationAlreadyExistsError");
+        yield* expectFailure(
+          service.createApplication(makeApp(id("invalid"), { defaultConfig: { data: { limit: "ten" } } })),
+          "ConfigValidationError"
+        );
+        check((yield* service.getApplication(id("invalid"))) === null, "An invalid application must not be stored");
+      }),
+  },
+  {
+    name: "updates applications with optimistic concurrency",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("update")));
+        const updated = yield* service.updateApplication(id("update"), { defaultConfig: { data: { label: "v2" } } }, "alice", 1);
+        check(updated.revision === 2 && updated.defaultConfig.data.label === "v2", "Update should apply and bump the revision");
+
+        const stale = yield* expectFailure(
+          service.updateApplication(id("update"), { defaultConfig: { data: { label: "lost" } } }, "bob", 1),
+          "StaleRevisionError"
+        );
+        check(stale.currentRevision === 2, `Stale error should report revision 2, got ${stale.currentRevision}`);
+        yield* expectFailure(
+          service.updateApplication(id("update"), { defaultConfig: { data: { label: 42 } } }),
+          "ConfigValidationError"
+        );
+        yield* expectFailure(service.updateApplication(id("absent"), {}), "ApplicationNotFoundError");
+
+        const current = yield* service.getApplication(id("update"));
+        check(current?.defaultConfig.data.label === "v2", "Rejected updates must not change the application");
+      }),
+  },
+  {
+    name: "lets the last writer win without an expected revision",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("unconditional")));
+        const labels = ["a", "b", "c", "d"];
+        yield* Effect.forEach(
+          labels,
+          (label) => service.updateApplication(id("unconditional"), { defaultConfig: { data: { label } } }, label),
+          { concurrency: "unbounded" }
+        );
+
+        const current = yield* service.getApplication(id("unconditional"));
+        check(current?.revision === 1 + labels.length, `Every unconditional write should land, got revision ${current?.revision}`);
+        check(labels.includes(current?.defaultConfig.data.label), "The application should hold one of the writes");
+      }),
+  },
+  {
+    name: "keeps the public flag and read keys",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("keys")));
+        const createdAt = new Date("2026-01-01T00:00:00Z");
+        const expiresAt = new Date("2026-01-02T00:00:00Z");
+        const readKeys = [
+          { id: "old", hash: "a".repeat(64), createdAt, expiresAt },
+          { id: "new", name: "web", hash: "b".repeat(64), createdAt },
+        ];
+        yield* service.updateApplication(id("keys"), { public: true, readKeys });
+        const stored = yield* service.getApplication(id("keys"));
+        check(stored?.public === true, "The public flag should be stored");
+        const keys = stored?.readKeys ?? [];
+        check(keys.length === 2, `Both read keys should be stored, got ${JSON.stringify(keys)}`);
+        const [old, current] = keys;
+        check(old.id === "old" && old.hash === "a".repeat(64), "Read keys should keep their id and hash");
+        check(new Date(old.createdAt).getTime() === createdAt.getTime(), "Read keys should keep their creation date");
+        check(new Date(old.expiresAt!).getTime() === expiresAt.getTime(), "Rotated-out read keys should keep their expiry");
+        check(current.name === "web" && current.expiresAt === undefined, "Read keys should keep their name and no expiry");
+
+        yield* service.updateApplication(id("keys"), { public: false, readKeys: [] });
+        const locked = yield* service.getApplication(id("keys"));
+        check(locked?.public === false && locked.readKeys?.length === 0, "An emptied key list should stay distinct from no keys");
+      }),
+  },
+  {
+    name: "writes updates to the given application whatever ids they carry",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("target")));
+        yield* service.createApplication(makeApp(id("other")));
+        const update = { applicationId: id("other"), revision: 99, defaultConfig: { data: { label: "moved" } } };
+        const updated = yield* service.updateApplication(id("target"), update);
+        check(updated.applicationId === id("target") && updated.revision === 2, "The update should stay on the given application");
+        check((yield* service.getApplication(id("target")))?.defaultConfig.data.label === "moved", "The given application should be updated");
+        const other = yield* service.getApplication(id("other"));
+        check(other?.defaultConfig.data.label === "default" && other.revision === 1, "The application named in the update must not be written");
+      }),
+  },
+  {
+    name: "archives and unarchives applications",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("archive")));
+        yield* service.archiveApplication(id("archive"));
+        check((yield* service.getApplication(id("archive")))?.archived === true, "Application should be archived");
+        check(
+          (yield* service.getConfig({ applicationId: id("archive"), version: "1.0.0" })) === null,
+          "getConfig should return null for archived applications"
+        );
+        const explained = yield* service.explainConfig({ applicationId: id("archive"), version: "1.0.0" });
+        check(explained.archived, "explainConfig should still resolve archived applications");
+
+        yield* service.unarchiveApplication(id("archive"));
+        const served = yield* service.getConfig({ applicationId: id("archive"), version: "1.0.0" });
+        check(served?.data.label === "default", "getConfig should serve unarchived applications again");
+
+        yield* expectFailure(service.archiveApplication(id("absent")), "ApplicationNotFoundError");
+        yield* expectFailure(service.unarchiveApplication(id("absent")), "ApplicationNotFoundError");
+      }),
+  },
+  {
+    name: "resolves configs by version",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("resolve")));
+        yield* service.createNamedConfig(id("resolve"), "beta", { label: "beta" }, ["2.0.0", ">=3.0.0 <4.0.0"]);
+
+        const exact = yield* service.getConfig({ applicationId: id("resolve"), version: "2.0.0" });
+        check(exact?.data.label === "beta", `2.0.0 should resolve to beta, got ${exact?.data.label}`);
+        const ranged = yield* service.getConfig({ applicationId: id("resolve"), version: "3.4.5" });
+        check(ranged?.data.label === "beta", `3.4.5 should resolve to beta, got ${ranged?.data.label}`);
+        const fallback = yield* service.getConfig({ applicationId: id("resolve"), version: "1.0.0" });
+        check(fallback?.data.label === "default", `1.0.0 should resolve to the default, got ${fallback?.data.label}`);
+        check(typeof fallback?.cacheControl === "string", "getConfig should return a Cache-Control value");
+        check(
+          (yield* service.getConfig({ applicationId: id("absent"), version: "1.0.0" })) === null,
+          "getConfig should return null for unknown applications"
+        );
+
+        const explained = yield* service.explainConfig({ applicationId: id("resolve"), version: "3.4.5" });
+        check(
+          explained.source === "named" && explained.configName === "beta" && explained.matchedVersion === ">=3.0.0 <4.0.0",
+          "explainConfig should report the matching named config and entry"
+        );
+        yield* expectFailure(service.explainConfig({ applicationId: id("absent"), version: "1.0.0" }), "ApplicationNotFoundError");
+      }),
+  },
+  {
+    name: "creates, updates and deletes named configs",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("named")));
+        const created = yield* service.createNamedConfig(id("named"), "beta", { label: "beta" }, ["1.0.0"]);
+        check(created.namedConfigs.beta?.versions[0] === "1.0.0", "createNamedConfig should store the named config");
+        yield* expectFailure(service.createNamedConfig(id("named"), "beta", { label: "again" }, ["9.0.0"]), "NamedConfigAlreadyExistsError");
+        yield* expectFailure(service.createNamedConfig(id("absent"), "beta", { label: "x" }, ["1.0.0"]), "ApplicationNotFoundError");
+
+        const updated = yield* service.updateNamedConfig(id("named"), "beta", { label: "beta2" }, ["1.0.0", "1.1.0"]);
+        check(updated.namedConfigs.beta?.data.label === "beta2", "updateNamedConfig should replace the data");
+        check(updated.namedConfigs.beta?.versions.join(",") === "1.0.0,1.1.0", "updateNamedConfig should replace the versions in order");
+        yield* expectFailure(service.updateNamedConfig(id("named"), "gamma", { label: "x" }, []), "NamedConfigNotFoundError");
+        yield* expectFailure(service.updateNamedConfig(id("absent"), "beta", { label: "x" }, []), "ApplicationNotFoundError");
+        yield* expectFailure(
+          service.updateNamedConfig(id("named"), "beta", { label: "stale" }, ["1.0.0"], "bob", 1),
+          "StaleRevisionError"
+        );
+
+        const deleted = yield* service.deleteNamedConfig(id("named"), "beta");
+        check(!deleted.namedConfigs.beta, "deleteNamedConfig should remove the named config");
+        yield* expectFailure(service.deleteNamedConfig(id("named"), "beta"), "NamedConfigNotFoundError");
+        yield* expectFailure(service.deleteNamedConfig(id("absent"), "beta"), "ApplicationNotFoundError");
+      }),
+  },
+  {
+    name: "deletes named configs whose names hold dots or dollars",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("dotted")));
+        yield* service.createNamedConfig(id("dotted"), "v1.2", { label: "dotted" }, ["1.2.0"]);
+        yield* service.createNamedConfig(id("dotted"), "$beta", { label: "dollar" }, ["2.0.0"]);
+
+        yield* service.deleteNamedConfig(id("dotted"), "v1.2");
+        const afterDot = yield* service.getApplication(id("dotted"));
+        check(Object.keys(afterDot?.namedConfigs ?? {}).join(",") === "$beta", "Only the dotted named config should be removed");
+
+        yield* service.deleteNamedConfig(id("dotted"), "$beta");
+        const afterDollar = yield* service.getApplication(id("dotted"));
+        check(Object.keys(afterDollar?.namedConfigs ?? {}).length === 0, "The dollar named config should be removed");
+        check(afterDollar?.revision === 5, "Each deletion should record one revision");
+      }),
+  },
+  {
+    name: "validates named config data and versions",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("versions")));
+        yield* service.createNamedConfig(id("versions"), "beta", { label: "beta" }, ["^1.0.0"]);
+        yield* expectFailure(service.createNamedConfig(id("versions"), "bad", { label: "x" }, ["not-a-version"]), "SemverValidationError");
+        yield* expectFailure(service.createNamedConfig(id("versions"), "overlap", { label: "x" }, ["1.2.0"]), "VersionConflictError");
+        yield* expectFailure(service.createNamedConfig(id("versions"), "typed", { label: 1 }, ["5.0.0"]), "ConfigValidationError");
+
+        const current = yield* service.getApplication(id("versions"));
+        check(Object.keys(current?.namedConfigs ?? {}).join(",") === "beta", "Rejected named configs must not be stored");
+      }),
+  },
+  {
+    name: "records revisions and rolls back",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(makeApp(id("revisions")), "alice");
+        yield* service.updateApplication(id("revisions"), { defaultConfig: { data: { label: "v2" } } }, "bob");
+        yield* service.archiveApplication(id("revisions"), "carol");
+
+        const history = yield* service.listRevisions(id("revisions"));
+        check(history.map((r) => r.revision).join(",") === "3,2,1", "Revisions should be listed newest first");
+        check(history.map((r) => r.author).join(",") === "carol,bob,alice", "Revisions should record their authors");
+        check(history[2].timestamp instanceof Date, "Revision timestamps should be Dates");
+
+        const first = yield* service.getRevision(id("revisions"), 1);
+        check(first.snapshot.defaultConfig.data.label === "default", "getRevision should return the snapshot");
+        yield* expectFailure(service.getRevision(id("revisions"), 99), "RevisionNotFoundError");
+        yield* expectFailure(service.listRevisions(id("absent")), "ApplicationNotFoundError");
+
+        const rolledBack = yield* service.rollbackApplication(id("revisions"), 1, "dave");
+        check(rolledBack.defaultConfig.data.label === "default", "Rollback should restore the snapshot content");
+        check(rolledBack.archived && rolledBack.revision === 4, "Rollback should keep the archived flag and add a revision");
+        yield* expectFailure(service.rollbackApplication(id("revisions"), 99), "RevisionNotFoundError");
+      }),
+  },
+  {
+    name: "rolls back across a named config mode change",
+    run: (service, id) =>
+      Effect.gen(function* () {
+        const request = { applicationId: id("mode"), version: "1.0.0" };
+        const namedConfigs = { prod: { data: { label: "prod" }, versions: ["1.0.0"] } };
+        yield* service.createApplication(makeApp(id("mode"), { namedConfigs }));
+        yield* service.updateApplication(id("mode"), {
+          namedConfigMode: "merge",
+          allowVersionOverlap: true,
+          namedConfigs: { prod: { data: { limit: 5 }, versions: ["1.0.0"] } },
+        });
+        const merged = yield* service.getConfig(request);
+        check(merged?.data.label === "default" && merged.data.limit === 5, "Merge mode should serve overrides on the default");
+
+        const replaced = yield* service.rollbackApplication(id("mode"), 1);
+        check(replaced.namedConfigMode !== "merge" && !replaced.allowVersionOverlap, "Rollback should restore the mode and overlap setting");
+        const full = yield* service.getConfig(request);
+        check(full?.data.label === "prod" && full.data.limit === undefined, `Rolled back named configs should be served whole, got ${JSON.stringify(full?.data)}`);
+
+        const restored = yield* service.rollbackApplication(id("mode"), 2);
+        check(restored.namedConfigMode === "merge" && restored.allowVersionOverlap === true, "Rollback should bring merge mode back");
+        const overrides = yield* service.getConfig(request);
+        check(overrides?.data.label === "default" && overrides.data.limit === 5, "Rolled back overrides should be merged again");
+      }),
+  },
+];
+
+// Runs every case against the layer and resolves with one result per case.
+// Application ids are unique per run, so the suite can run against a store that already holds data.
+export const runStorageConformance = async (
+  layer: Layer.Layer<ConfigStorageService, unknown>,
+  options: StorageConformanceOptions = {}
+): Promise<StorageConformanceResult[]> => {
+  const runId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+  const suite = Effect.gen(function* () {
+    const service = yield* ConfigStorageService;
+    const results: StorageConformanceResult[] = [];
+
+    for (const [index, conformanceCase] of CASES.entries()) {
+      const applicationId = (suffix: string) => `conformance-${runId}-${index}-${suffix}`;
+      const exit = yield* Effect.exit(Effect.suspend(() => conformanceCase.run(service, applicationId)));
+      const result: StorageConformanceResult = Exit.isSuccess(exit)
+        ? { name: conformanceCase.name, passed: true }
+        : { name: conformanceCase.name, passed: false, error: describeFailure(Cause.squash(exit.cause)) };
+      options.log?.(`${result.passed ? "✓" : "✗"} ${result.name}${result.error ? `: ${result.error}` : ""}`);
+      results.push(result);
+    }
+    return results;
+  });
+
+  return Effect.runPromise(suite.pipe(Effect.provide(layer), Effect.orDie));
+};
+
+const describeFailure = (error: unknown): string => {
+  if (error instanceof Error && !("_tag" in error)) return error.message;
+  const tag = (error as { _tag?: string })?._tag;
+  return tag ? `Unexpected ${tag}` : String(error);
+};
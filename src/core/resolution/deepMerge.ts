@@ -0,0 +1,22 @@
+// Deep merge used to layer a named config's overrides over the default config
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Plain objects merge key by key. Arrays, scalars and null in the override replace the base value
+// wholesale (arrays are never concatenated or merged by index); undefined keeps the base value.
+export function deepMerge(base: any, override: any): any {
+  if (override === undefined) {
+    return base;
+  }
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+
+  // Build through a Map so keys such as "__proto__" stay plain data properties
+  const merged = new Map<string, any>(Object.entries(base));
+  for (const [key, value] of Object.entries(override)) {
+    merged.set(key, merged.has(key) ? deepMerge(merged.get(key), value) : value);
+  }
+  return Object.fromEntries(merged);
+}
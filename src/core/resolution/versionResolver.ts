@@ -0,0 +1,130 @@
+// Resolution of a client version to the named config that serves it, shared by all storage layers
+import * as semver from "semver";
+import type { AppConfig, CacheControl, ConfigResolution, ConfigResponse, NamedConfig } from "../types.js";
+import { deepMerge } from "./deepMerge.js";
+
+export interface VersionMatch {
+  name: string;
+  config: NamedConfig;
+  matchedVersion: string; // Entry of config.versions (exact version or range) that matched
+}
+
+const isExactVersion = (entry: string): boolean => semver.valid(entry) !== null;
+
+// Entry of a named config's versions that a version satisfies, preferring exact versions over ranges
+function matchingEntry(config: NamedConfig, version: string): string | undefined {
+  const satisfied = config.versions.filter((entry) => semver.satisfies(version, entry));
+  return satisfied.find(isExactVersion) ?? satisfied[0];
+}
+
+// Find the named config serving a version. Exact versions take precedence over ranges, then configs
+// are ordered by name, so overlapping entries (only stored when allowVersionOverlap is set) always
+// resolve the same way regardless of storage order.
+export function matchNamedConfig(app: AppConfig, version: string): VersionMatch | null {
+  const matches: VersionMatch[] = [];
+
+  for (const [name, config] of Object.entries(app.namedConfigs)) {
+    const matchedVersion = matchingEntry(config, version);
+    if (matchedVersion) {
+      matches.push({ name, config, matchedVersion });
+    }
+  }
+
+  matches.sort(
+    (a, b) =>
+      Number(isExactVersion(b.matchedVersion)) - Number(isExactVersion(a.matchedVersion)) ||
+      (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+  );
+
+  return matches[0] ?? null;
+}
+
+// Data served for a named config: its overrides deep-merged over the default in merge mode, as stored otherwise
+export function namedConfigData(app: Pick<AppConfig, "namedConfigMode" | "defaultConfig">, config: NamedConfig): any {
+  return app.namedConfigMode === "merge" ? deepMerge(app.defaultConfig.data, config.data) : config.data;
+}
+
+// Cache-Control header value for a response cached for maxAgeSeconds ("no-cache" when unset)
+function cacheControlHeader(maxAgeSeconds: number | undefined, cacheControl?: CacheControl): string {
+  if (!maxAgeSeconds) {
+    return "no-cache";
+  }
+  const directives = [`max-age=${maxAgeSeconds}`];
+  if (cacheControl?.staleWhileRevalidateSeconds) {
+    directives.push(`stale-while-revalidate=${cacheControl.staleWhileRevalidateSeconds}`);
+  }
+  if (cacheControl?.staleIfErrorSeconds) {
+    directives.push(`stale-if-error=${cacheControl.staleIfErrorSeconds}`);
+  }
+  return directives.join(", ");
+}
+
+function namedResolution(app: AppConfig, version: string, match: VersionMatch, cacheControl?: CacheControl): ConfigResolution {
+  return {
+    applicationId: app.applicationId,
+    version,
+    archived: app.archived,
+    revision: app.revision,
+    lastUpdated: app.lastUpdated,
+    source: "named",
+    configName: match.name,
+    matchedVersion: match.matchedVersion,
+    cacheControl: cacheControlHeader(cacheControl?.maxAgeSeconds, cacheControl),
+    data: namedConfigData(app, match.config),
+  };
+}
+
+// Resolve what a version is served, ignoring the archived flag (callers decide whether archived apps are served)
+export function resolveConfig(app: AppConfig, version: string, cacheControl?: CacheControl): ConfigResolution {
+  const base = {
+    applicationId: app.applicationId,
+    version,
+    archived: app.archived,
+    revision: app.revision,
+    lastUpdated: app.lastUpdated,
+  };
+  const match = matchNamedConfig(app, version);
+
+  if (match) {
+    return namedResolution(app, version, match, cacheControl);
+  }
+
+  return {
+    ...base,
+    source: "default",
+    cacheControl: cacheControlHeader(cacheControl?.defaultMaxAgeSeconds, cacheControl),
+    data: app.defaultConfig.data,
+  };
+}
+
+// Resolve a named config requested by name, bypassing precedence between configs. Null when the config does
+// not exist or none of its versions and ranges allows the version, so a client never gets a config not meant for it.
+export function resolveNamedConfig(
+  app: AppConfig,
+  name: string,
+  version: string,
+  cacheControl?: CacheControl
+): ConfigResolution | null {
+  const config = Object.hasOwn(app.namedConfigs, name) ? app.namedConfigs[name] : undefined;
+  const matchedVersion = config && matchingEntry(config, version);
+  return matchedVersion ? namedResolution(app, version, { name, config, matchedVersion }, cacheControl) : null;
+}
+
+// What a request for a named config serves, or why nothing: a missing or archived application, an unknown
+// named config, or a version the config does not allow
+export type NamedConfigLookup = { result: ConfigResponse } | { missing: "application" | "namedConfig" | "version" };
+
+export function lookupNamedConfig(app: AppConfig | null, name: string, version: string, cacheControl?: CacheControl): NamedConfigLookup {
+  if (!app || app.archived) {
+    return { missing: "application" };
+  }
+  if (!Object.hasOwn(app.namedConfigs, name)) {
+    return { missing: "namedConfig" };
+  }
+  const resolution = resolveNamedConfig(app, name, version, cacheControl);
+  if (!resolution) {
+    return { missing: "version" };
+  }
+  const { data, cacheControl: resolvedCacheControl, revision, lastUpdated } = resolution;
+  return { result: { data, cacheControl: resolvedCacheControl, revision, lastUpdated } };
+}
@@ -0,0 +1,171 @@
+// Scoped bearer tokens for automation against the admin API, stored hashed through an ApiTokenStore
+import { Effect, Layer, Ref, Context } from "effect";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import {
+  ApiTokenNotFoundError,
+  ConfigValidationError,
+  type AdminRole,
+  type ApiToken,
+  type ApiTokenRecord,
+  type ApiTokenScope,
+  type MongoDbError,
+  type ValidationError,
+} from "../types.js";
+import { LoggerService, LoggerServiceLayer } from "./LoggerService.js";
+
+const SCOPES: readonly ApiTokenScope[] = ["read", "write", "archive"];
+
+// Secrets look like cfg_<id>_<random>: the id finds the record, the whole secret is checked against its hash
+const SECRET_PATTERN = /^cfg_([0-9a-f]{16})_[A-Za-z0-9_-]{32}$/;
+
+// lastUsedAt is only rewritten when older than this, so busy tokens do not cause a write per request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+// Persistence of token records, implemented by each storage backend
+export interface ApiTokenStore {
+  list(): Effect.Effect<ApiTokenRecord[], MongoDbError>;
+  get(tokenId: string): Effect.Effect<ApiTokenRecord | null, MongoDbError>;
+  put(record: ApiTokenRecord): Effect.Effect<void, MongoDbError>; // Inserts or replaces by id
+}
+
+export const ApiTokenStore = Context.GenericTag<ApiTokenStore>("ApiTokenStore");
+
+export interface CreateApiTokenRequest {
+  name: string;
+  applications: string[];
+  scopes: ApiTokenScope[];
+  expiresAt?: Date;
+}
+
+export interface ApiTokenService {
+  // The secret is only ever returned here
+  create(
+    request: CreateApiTokenRequest,
+    createdBy: string,
+    creatorRoles?: Record<string, AdminRole>
+  ): Effect.Effect<{ token: ApiToken; secret: string }, ConfigValidationError | MongoDbError>;
+  list(): Effect.Effect<ApiToken[], MongoDbError>;
+  get(tokenId: string): Effect.Effect<ApiToken | null, MongoDbError>;
+  revoke(tokenId: string): Effect.Effect<ApiToken, ApiTokenNotFoundError | MongoDbError>;
+  // The token of a secret that is known, unrevoked and unexpired, or null. Records when it was last used.
+  authenticate(secret: string): Effect.Effect<ApiToken | null, MongoDbError>;
+}
+
+export const ApiTokenService = Context.GenericTag<ApiTokenService>("ApiTokenService");
+
+const hashSecret = (secret: string): string => createHash("sha256").update(secret).digest("hex");
+
+const toToken = ({ secretHash, ...token }: ApiTokenRecord): ApiToken => token;
+
+const validateRequest = (request: CreateApiTokenRequest): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  if (typeof request.name !== "string" || !request.name.trim()) {
+    errors.push({ field: "name", message: "must be a non-empty string", value: request.name });
+  }
+  if (!Array.isArray(request.applications) || request.applications.length === 0 || !request.applications.every((id) => typeof id === "string" && id)) {
+    errors.push({ field: "applications", message: "must list at least one applicationId or \"*\"", value: request.applications });
+  }
+  if (!Array.isArray(request.scopes) || request.scopes.length === 0 || !request.scopes.every((scope) => SCOPES.includes(scope))) {
+    errors.push({ field: "scopes", message: `must list at least one of ${SCOPES.join(", ")}`, value: request.scopes });
+  }
+  if (request.expiresAt !== undefined && !(request.expiresAt instanceof Date && request.expiresAt.getTime() > Date.now())) {
+    errors.push({ field: "expiresAt", message: "must be a date in the future", value: request.expiresAt });
+  }
+  return errors;
+};
+
+export const ApiTokenServiceLayer = Layer.effect(
+  ApiTokenService,
+  Effect.gen(function* () {
+    const store = yield* ApiTokenStore;
+    const logger = yield* LoggerService;
+
+    const create = (request: CreateApiTokenRequest, createdBy: string, creatorRoles?: Record<string, AdminRole>) =>
+      Effect.gen(function* () {
+        const errors = validateRequest(request);
+        if (errors.length > 0) {
+          return yield* Effect.fail(new ConfigValidationError({ errors, context: "API token" }));
+        }
+        const id = randomBytes(8).toString("hex");
+        const secret = `cfg_${id}_${randomBytes(24).toString("base64url")}`;
+        const record: ApiTokenRecord = {
+          id,
+          name: request.name.trim(),
+          applications: [...new Set(request.applications)],
+          scopes: [...new Set(request.scopes)],
+          createdBy,
+          ...(creatorRoles ? { creatorRoles } : {}),
+          createdAt: new Date(),
+          ...(request.expiresAt ? { expiresAt: request.expiresAt } : {}),
+          secretHash: hashSecret(secret),
+        };
+        yield* store.put(record);
+        yield* logger.info("Created API token", { id, name: record.name, createdBy });
+        return { token: toToken(record), secret };
+      });
+
+    const list = () => store.list().pipe(Effect.map((records) => records.map(toToken)));
+
+    const get = (tokenId: string) => store.get(tokenId).pipe(Effect.map((record) => (record ? toToken(record) : null)));
+
+    const revoke = (tokenId: string) =>
+      Effect.gen(function* () {
+        const record = yield* store.get(tokenId);
+        if (!record) {
+          return yield* Effect.fail(new ApiTokenNotFoundError({ tokenId }));
+        }
+        const revoked = record.revokedAt ? record : { ...record, revokedAt: new Date() };
+        yield* store.put(revoked);
+        yield* logger.info("Revoked API token", { id: tokenId, name: record.name });
+        return toToken(revoked);
+      });
+
+    const authenticate = (secret: string) =>
+      Effect.gen(function* () {
+        const match = SECRET_PATTERN.exec(secret);
+        const record = match ? yield* store.get(match[1]) : null;
+        if (!record) {
+          return null;
+        }
+        const expected = Buffer.from(record.secretHash, "hex");
+        const actual = Buffer.from(hashSecret(secret), "hex");
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+          return null;
+        }
+        const now = new Date();
+        if (record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+          return null;
+        }
+        if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+          const used = { ...record, lastUsedAt: now };
+          yield* store.put(used);
+          return toToken(used);
+        }
+        return toToken(record);
+      });
+
+    return { create, list, get, revoke, authenticate };
+  })
+).pipe(Layer.provide(LoggerServiceLayer));
+
+// Tokens kept in memory, for the in-memory backend and custom storage
+export const InMemoryApiTokenStoreLayer = Layer.effect(
+  ApiTokenStore,
+  Effect.gen(function* () {
+    const records = yield* Ref.make(new Map<string, ApiTokenRecord>());
+    return {
+      list: () => Ref.get(records).pipe(Effect.map((all) => Array.from(all.values()))),
+      get: (tokenId: string) => Ref.get(records).pipe(Effect.map((all) => all.get(tokenId) ?? null)),
+      put: (record: ApiTokenRecord) => Ref.update(records, (all) => new Map(all).set(record.id, record)),
+    };
+  })
+);
+
+// Dates come back from JSON and document stores as strings
+export const reviveApiTokenRecord = (raw: any): ApiTokenRecord => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  ...(raw.expiresAt ? { expiresAt: new Date(raw.expiresAt) } : {}),
+  ...(raw.lastUsedAt ? { lastUsedAt: new Date(raw.lastUsedAt) } : {}),
+  ...(raw.revokedAt ? { revokedAt: new Date(raw.revokedAt) } : {}),
+});
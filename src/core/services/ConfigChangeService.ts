@@ -0,0 +1,60 @@
+// In-process feed of application changes, used to invalidate local caches and to push updates to clients
+import { Effect, Layer, Context, PubSub, type Queue, type Scope } from "effect";
+import type { AppConfig, ApplicationChangeEvent } from "../types.js";
+import { ConfigStorageService } from "./ConfigStorageService.js";
+
+export interface ConfigChangeService {
+  publish(event: ApplicationChangeEvent): Effect.Effect<void, never>;
+  // Each subscriber receives every event published after it subscribed, until its scope closes
+  subscribe(): Effect.Effect<Queue.Dequeue<ApplicationChangeEvent>, never, Scope.Scope>;
+}
+
+export const ConfigChangeService = Context.GenericTag<ConfigChangeService>("ConfigChangeService");
+
+export const ConfigChangeServiceLayer = Layer.effect(
+  ConfigChangeService,
+  Effect.gen(function* () {
+    const pubsub = yield* PubSub.unbounded<ApplicationChangeEvent>();
+
+    return {
+      publish: (event: ApplicationChangeEvent) => PubSub.publish(pubsub, event).pipe(Effect.asVoid),
+      subscribe: () => PubSub.subscribe(pubsub),
+    };
+  })
+);
+
+// Wraps the ConfigStorageService it is given so that every successful write through this instance is published
+export const ConfigChangePublisherLayer = Layer.effect(
+  ConfigStorageService,
+  Effect.gen(function* () {
+    const storage = yield* ConfigStorageService;
+    const changes = yield* ConfigChangeService;
+
+    // Writes that return the stored application report its new revision
+    const published = (applicationId: string, result: AppConfig | void) =>
+      changes.publish({
+        applicationId,
+        revision: result?.revision,
+        lastUpdated: result?.lastUpdated,
+        source: "local",
+      });
+
+    const publishing =
+      <Args extends [string, ...any[]], A extends AppConfig | void, E>(write: (...args: Args) => Effect.Effect<A, E>) =>
+      (...args: Args): Effect.Effect<A, E> =>
+        write(...args).pipe(Effect.tap((result) => published(args[0], result)));
+
+    return {
+      ...storage,
+      createApplication: (app: AppConfig, author?: string) =>
+        storage.createApplication(app, author).pipe(Effect.tap((result) => published(app.applicationId, result))),
+      updateApplication: publishing(storage.updateApplication),
+      archiveApplication: publishing(storage.archiveApplication),
+      unarchiveApplication: publishing(storage.unarchiveApplication),
+      createNamedConfig: publishing(storage.createNamedConfig),
+      updateNamedConfig: publishing(storage.updateNamedConfig),
+      deleteNamedConfig: publishing(storage.deleteNamedConfig),
+      rollbackApplication: publishing(storage.rollbackApplication),
+    };
+  })
+);
@@ -1,37 +1,112 @@
 // 35 Lines by Claude Sonnet
 // ConfigStorageService interface with never dependencies for pure service definition
-import { Effect, Context } from "effect";
-import type { AppConfig, ConfigRequest, ConfigResponse, SharedValidationError, ApplicationNotFoundError, ApplicationAlreadyExistsError, NamedConfigNotFoundError, NamedConfigAlreadyExistsError } from "../types.js";
+import { Effect, Context, Duration, Exit, Cause } from "effect";
+import type {
+  AppConfig,
+  AppConfigRevision,
+  ConfigRequest,
+  ConfigResolution,
+  ConfigResponse,
+  SharedValidationError,
+  ApplicationNotFoundError,
+  ApplicationAlreadyExistsError,
+  NamedConfigNotFoundError,
+  NamedConfigAlreadyExistsError,
+  RevisionNotFoundError,
+  MongoDbError,
+  StorageHealth,
+} from "../types.js";
 
+// Author recorded on revisions when a write is not attributed to a user
+export const SYSTEM_AUTHOR = "system";
+
+// What a rollback restores from a revision snapshot: the configuration content and the settings that
+// decide how it is served, so named configs are never read in another mode than they were written for.
+// Archiving is managed through its own operations.
+export const rollbackUpdate = (snapshot: AppConfig): Partial<AppConfig> => ({
+  schema: snapshot.schema,
+  defaultConfig: snapshot.defaultConfig,
+  namedConfigs: snapshot.namedConfigs,
+  namedConfigMode: snapshot.namedConfigMode ?? "replace",
+  allowVersionOverlap: snapshot.allowVersionOverlap ?? false,
+});
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+// Times a probe of the backing store for healthCheck; failures and timeouts are reported as unhealthy
+export const probeHealth = (backend: string, probe: Effect.Effect<unknown, unknown>): Effect.Effect<StorageHealth, never> =>
+  Effect.gen(function* () {
+    const start = Date.now();
+    const exit = yield* probe.pipe(
+      Effect.timeoutFail({
+        duration: Duration.millis(HEALTH_CHECK_TIMEOUT_MS),
+        onTimeout: () => new Error(`Health check timed out after ${HEALTH_CHECK_TIMEOUT_MS}ms`),
+      }),
+      Effect.exit
+    );
+    const latencyMs = Date.now() - start;
+    if (Exit.isSuccess(exit)) {
+      return { backend, healthy: true, latencyMs };
+    }
+    const error = Cause.squash(exit.cause);
+    return { backend, healthy: false, latencyMs, message: error instanceof Error ? error.message : String(error) };
+  });
+
+// Every operation may also fail with a MongoDbError when the backing store is unreachable or rejects the
+// operation, so an outage is never mistaken for a missing application
 export interface ConfigStorageService {
   // Application operations
-  listApplications(): Effect.Effect<AppConfig[], never>;
-  getApplication(applicationId: string): Effect.Effect<AppConfig | null, never>;
-  createApplication(config: AppConfig): Effect.Effect<AppConfig, SharedValidationError | ApplicationAlreadyExistsError>;
+  listApplications(): Effect.Effect<AppConfig[], MongoDbError>;
+  getApplication(applicationId: string): Effect.Effect<AppConfig | null, MongoDbError>;
+  createApplication(config: AppConfig, author?: string): Effect.Effect<AppConfig, SharedValidationError | ApplicationAlreadyExistsError | MongoDbError>;
+  // When expectedRevision is given the write fails with StaleRevisionError unless it is the current revision
   updateApplication(
     applicationId: string,
-    config: Partial<AppConfig>
-  ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError>;
-  archiveApplication(applicationId: string): Effect.Effect<void, ApplicationNotFoundError>;
-  unarchiveApplication(applicationId: string): Effect.Effect<void, ApplicationNotFoundError>;
+    config: Partial<AppConfig>,
+    author?: string,
+    expectedRevision?: number
+  ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | MongoDbError>;
+  archiveApplication(applicationId: string, author?: string): Effect.Effect<void, ApplicationNotFoundError | MongoDbError>;
+  unarchiveApplication(applicationId: string, author?: string): Effect.Effect<void, ApplicationNotFoundError | MongoDbError>;
 
   // Config retrieval
-  getConfig(request: ConfigRequest): Effect.Effect<ConfigResponse | null, never>;
+  getConfig(request: ConfigRequest): Effect.Effect<ConfigResponse | null, MongoDbError>;
+  // Same resolution as getConfig with the details of why, including for archived applications
+  explainConfig(request: ConfigRequest): Effect.Effect<ConfigResolution, ApplicationNotFoundError | MongoDbError>;
 
   // Named config operations
   createNamedConfig(
     applicationId: string,
     name: string,
     data: any,
-    versions: string[]
-  ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigAlreadyExistsError>;
+    versions: string[],
+    author?: string
+  ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigAlreadyExistsError | MongoDbError>;
   updateNamedConfig(
     applicationId: string,
     name: string,
     data: any,
-    versions: string[]
-  ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigNotFoundError>;
-  deleteNamedConfig(applicationId: string, name: string): Effect.Effect<AppConfig, ApplicationNotFoundError | NamedConfigNotFoundError>;
+    versions: string[],
+    author?: string,
+    expectedRevision?: number
+  ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigNotFoundError | MongoDbError>;
+  deleteNamedConfig(
+    applicationId: string,
+    name: string,
+    author?: string
+  ): Effect.Effect<AppConfig, ApplicationNotFoundError | NamedConfigNotFoundError | MongoDbError>;
+
+  // Probes the backing store; never fails, an unreachable store is reported as unhealthy
+  healthCheck(): Effect.Effect<StorageHealth, never>;
+
+  // Revision history (newest first)
+  listRevisions(applicationId: string): Effect.Effect<AppConfigRevision[], ApplicationNotFoundError | MongoDbError>;
+  getRevision(applicationId: string, revision: number): Effect.Effect<AppConfigRevision, ApplicationNotFoundError | RevisionNotFoundError | MongoDbError>;
+  rollbackApplication(
+    applicationId: string,
+    revision: number,
+    author?: string
+  ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | RevisionNotFoundError | MongoDbError>;
 }
 
 export const ConfigStorageService = Context.GenericTag<ConfigStorageService>("ConfigStorageService");
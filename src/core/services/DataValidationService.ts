@@ -4,10 +4,16 @@ import { Effect, Layer, Context } from "effect";
 import {
   validateConfig as validateJsonSchema,
   validateSemver as validateSemverVersionsFunc,
+  versionsOverlap,
 } from "../validation/schemaValidator.js";
 import type { AppConfig, NamedConfig } from "../types.js";
 import { ConfigValidationError, SemverValidationError, VersionConflictError } from "../types.js";
 import { LoggerService, LoggerServiceLayer } from "./LoggerService.js";
+import { namedConfigData } from "../resolution/versionResolver.js";
+
+// Application settings that change how its named configs are validated
+export type NamedConfigValidationOptions = Pick<AppConfig, "defaultConfig"> &
+  Partial<Pick<AppConfig, "allowVersionOverlap" | "namedConfigMode">>;
 
 export interface DataValidationService {
   // Basic validation methods
@@ -18,7 +24,7 @@ export interface DataValidationService {
 
   // Complex validation methods
   validateApplicationConfig(config: AppConfig, isUpdate?: boolean): Effect.Effect<void, ConfigValidationError | SemverValidationError | VersionConflictError>;
-  validateNamedConfigs(namedConfigs: Record<string, NamedConfig>, schema: any): Effect.Effect<void, ConfigValidationError | VersionConflictError>;
+  validateNamedConfigs(namedConfigs: Record<string, NamedConfig>, schema: any, options?: NamedConfigValidationOptions): Effect.Effect<void, ConfigValidationError | VersionConflictError>;
   checkVersionUniqueness(namedConfigs: Record<string, NamedConfig>): Effect.Effect<void, VersionConflictError>;
 }
 
@@ -91,35 +97,44 @@ export const DataValidationServiceLayer = Layer.effect(
         }
       });
 
+    // Two configs conflict when any of their entries can match the same version, e.g. "2.4.1" and "~2.4"
     const checkVersionUniqueness = (namedConfigs: Record<string, NamedConfig>): Effect.Effect<void, VersionConflictError> =>
       Effect.gen(function* () {
-        const versionMap = new Map<string, string>();
+        const claimed: Array<{ version: string; configName: string }> = [];
 
         for (const [name, config] of Object.entries(namedConfigs)) {
           for (const version of config.versions) {
-            if (versionMap.has(version)) {
-              const existingConfigName = versionMap.get(version)!;
+            const existing = claimed.find((entry) => versionsOverlap(entry.version, version));
+            if (existing) {
               yield* logger.error("Version conflict detected", {
                 version,
-                existingConfigName,
+                existingVersion: existing.version,
+                existingConfigName: existing.configName,
                 newConfigName: name,
               });
               return yield* Effect.fail(new VersionConflictError({
                 version,
-                existingConfigName,
-                newConfigName: name
+                existingConfigName: existing.configName,
+                newConfigName: name,
+                existingVersion: existing.version !== version ? existing.version : undefined
               }));
             }
-            versionMap.set(version, name);
           }
+          // Entries of the same config may overlap each other
+          claimed.push(...config.versions.map((version) => ({ version, configName: name })));
         }
       });
 
-    const validateNamedConfigs = (namedConfigs: Record<string, NamedConfig>, schema: any): Effect.Effect<void, ConfigValidationError | VersionConflictError> =>
+    const validateNamedConfigs = (
+      namedConfigs: Record<string, NamedConfig>,
+      schema: any,
+      options?: NamedConfigValidationOptions
+    ): Effect.Effect<void, ConfigValidationError | VersionConflictError> =>
       Effect.gen(function* () {
-        // Validate each named config
+        // Validate each named config as it will be served, i.e. after merging over the default in merge mode
         for (const [name, config] of Object.entries(namedConfigs)) {
-          const result = yield* validateJsonSchema(config.data, schema).pipe(Effect.catchAll(() => Effect.succeed([])));
+          const data = options ? namedConfigData(options, config) : config.data;
+          const result = yield* validateJsonSchema(data, schema).pipe(Effect.catchAll(() => Effect.succeed([])));
           if (result.length > 0) {
             yield* logger.error(`Named config validation failed for '${name}'`, { errors: result });
             return yield* Effect.fail(new ConfigValidationError({
@@ -129,8 +144,10 @@ export const DataValidationServiceLayer = Layer.effect(
           }
         }
 
-        // Check version uniqueness
-        yield* checkVersionUniqueness(namedConfigs);
+        // Check version uniqueness unless the application resolves overlaps by precedence
+        if (!options?.allowVersionOverlap) {
+          yield* checkVersionUniqueness(namedConfigs);
+        }
       });
 
     const validateApplicationConfig = (config: AppConfig, isUpdate: boolean = false): Effect.Effect<void, ConfigValidationError | SemverValidationError | VersionConflictError> =>
@@ -147,7 +164,7 @@ export const DataValidationServiceLayer = Layer.effect(
 
         // Validate named configs if present
         if (config.namedConfigs && Object.keys(config.namedConfigs).length > 0) {
-          yield* validateNamedConfigs(config.namedConfigs, config.schema);
+          yield* validateNamedConfigs(config.namedConfigs, config.schema, config);
         }
       });
 
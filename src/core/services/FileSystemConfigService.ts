@@ -0,0 +1,502 @@
+// File-system implementation of ConfigStorageService for single-node deployments
+import { Effect, Layer, Context } from "effect";
+import { promises as fs, constants as fsConstants } from "node:fs";
+import * as path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { ApiTokenRecord, AppConfig, AppConfigRevision, ConfigRequest, ConfigResolution, ConfigResponse, ConfigManagerOptions, StorageHealth } from "../types.js";
+import { ApplicationNotFoundError, ApplicationAlreadyExistsError, NamedConfigNotFoundError, NamedConfigAlreadyExistsError, RevisionNotFoundError, StaleRevisionError, SharedValidationError, UnexpectedServerError, WriteConflictError, type MongoDbError } from "../types.js";
+import { ConfigStorageService, SYSTEM_AUTHOR, rollbackUpdate, probeHealth } from "./ConfigStorageService.js";
+import { DataValidationService, DataValidationServiceLayer } from "./DataValidationService.js";
+import { LoggerService, LoggerServiceLayer } from "./LoggerService.js";
+import { ApiTokenStore, reviveApiTokenRecord } from "./ApiTokenService.js";
+import { resolveConfig } from "../resolution/versionResolver.js";
+
+const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 25;
+
+// Application ids are free-form, so they are encoded to stay a single safe file name
+const fileNameOf = (applicationId: string): string => `${encodeURIComponent(applicationId)}.json`;
+
+const reviveApplication = (raw: any): AppConfig => ({ ...raw, lastUpdated: new Date(raw.lastUpdated) });
+
+const reviveRevision = (raw: any): AppConfigRevision => ({
+  ...raw,
+  timestamp: new Date(raw.timestamp),
+  snapshot: reviveApplication(raw.snapshot),
+});
+
+// I/O failures (EACCES, ENOSPC, EMFILE...) are reported like the outages of the database backends,
+// so routes answer them the same way whatever the storage
+const fileSystemError = (error: unknown): MongoDbError =>
+  new UnexpectedServerError({ message: error instanceof Error ? error.message : String(error), cause: error });
+
+const tryFileSystem = <A>(operation: () => Promise<A>): Effect.Effect<A, MongoDbError> =>
+  Effect.tryPromise({ try: operation, catch: fileSystemError });
+
+const readJsonFile = (file: string): Effect.Effect<any | null, MongoDbError> =>
+  tryFileSystem(async () => {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  });
+
+// Write to a temporary file in the same directory, flush it, then rename over the target so
+// readers and crashes only ever observe the previous or the next complete file
+const writeFileAtomic = (file: string, contents: string): Effect.Effect<void, MongoDbError> =>
+  tryFileSystem(async () => {
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    const handle = await fs.open(tmp, "w");
+    try {
+      await handle.writeFile(contents, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tmp, file);
+  });
+
+export const FileSystemConfigServiceLayer = Layer.effect(
+  ConfigStorageService,
+  Effect.gen(function* () {
+    const config = yield* Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions");
+    const validationService = yield* DataValidationService;
+    const logger = yield* LoggerService;
+    const cacheControl = config.cacheControl;
+
+    if (!config.filesystem) {
+      return yield* Effect.dieMessage("FileSystemConfigServiceLayer requires the filesystem option");
+    }
+
+    const directory = path.resolve(config.filesystem.directory);
+    const revisionsDirectory = path.join(directory, "revisions");
+    const lockFile = path.join(directory, ".lock");
+    const lockTimeoutMs = config.filesystem.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    const appFile = (applicationId: string) => path.join(directory, fileNameOf(applicationId));
+    const revisionsFile = (applicationId: string) =>
+      path.join(revisionsDirectory, `${encodeURIComponent(applicationId)}.jsonl`);
+
+    yield* tryFileSystem(() => fs.mkdir(revisionsDirectory, { recursive: true }));
+
+    // Writers in this process queue on the semaphore; writers in other processes are kept out by
+    // an exclusive lock file. A lock file older than the timeout is left over from a crashed writer.
+    // Each holder writes its own token in the lock file and only ever removes a file holding the
+    // token it read, so a writer whose lock was taken over never deletes the new holder's lock.
+    const semaphore = yield* Effect.makeSemaphore(1);
+
+    const lockTokenOnDisk = () => fs.readFile(lockFile, "utf8").catch(() => null);
+    const removeLockFileHolding = async (token: string) => {
+      if ((await lockTokenOnDisk()) === token) {
+        await fs.rm(lockFile, { force: true });
+      }
+    };
+
+    const acquireLockFile: Effect.Effect<string, MongoDbError> = Effect.gen(function* () {
+      const token = `${process.pid}:${randomUUID()}`;
+      const deadline = Date.now() + lockTimeoutMs;
+      while (true) {
+        const acquired = yield* tryFileSystem(async () => {
+          try {
+            const handle = await fs.open(lockFile, "wx");
+            await handle.writeFile(token, "utf8");
+            await handle.close();
+            return true;
+          } catch (error: any) {
+            if (error.code !== "EEXIST") throw error;
+            const held = await lockTokenOnDisk();
+            const stats = await fs.stat(lockFile).catch(() => null);
+            if (held !== null && stats && Date.now() - stats.mtimeMs > lockTimeoutMs) {
+              await removeLockFileHolding(held);
+            }
+            return false;
+          }
+        });
+
+        if (acquired) return token;
+        if (Date.now() > deadline) {
+          return yield* Effect.fail(new WriteConflictError({ message: `Timed out waiting for lock ${lockFile}` }));
+        }
+        yield* Effect.sleep(LOCK_RETRY_MS);
+      }
+    });
+
+    // A lock that could not be removed is taken over once it is older than the timeout
+    const releaseLockFile = (token: string) =>
+      tryFileSystem(() => removeLockFileHolding(token)).pipe(
+        Effect.catchAll((error) => logger.error("Failed to release the lock file", { lockFile, message: error.message }))
+      );
+
+    // Writes run whole under the lock, starting from the application as it is on disk
+    const withLock = <A, E>(effect: Effect.Effect<A, E>): Effect.Effect<A, E | MongoDbError> =>
+      semaphore.withPermits(1)(Effect.acquireUseRelease(acquireLockFile, () => effect, releaseLockFile));
+
+    // Applications are read from disk on every call, nothing is kept in memory, so that all processes
+    // sharing the directory see each other's writes and creations at once
+    const listApplications = (): Effect.Effect<AppConfig[], MongoDbError> =>
+      Effect.gen(function* () {
+        const fileNames = yield* tryFileSystem(() => fs.readdir(directory));
+        const records = yield* Effect.forEach(
+          fileNames.filter((name) => name.endsWith(".json")),
+          (name) => readJsonFile(path.join(directory, name))
+        );
+        return records.filter((raw) => raw !== null).map(reviveApplication);
+      });
+
+    const getApplication = (applicationId: string): Effect.Effect<AppConfig | null, MongoDbError> =>
+      readJsonFile(appFile(applicationId)).pipe(Effect.map((raw) => (raw ? reviveApplication(raw) : null)));
+
+    // Append a snapshot of the stored application to its revision history
+    const recordRevision = (app: AppConfig, author: string): Effect.Effect<void, MongoDbError> => {
+      const revision: AppConfigRevision = {
+        applicationId: app.applicationId,
+        revision: app.revision ?? 0,
+        author,
+        timestamp: app.lastUpdated,
+        snapshot: app,
+      };
+      return tryFileSystem(() => fs.appendFile(revisionsFile(app.applicationId), `${JSON.stringify(revision)}\n`, "utf8"));
+    };
+
+    // Under the lock, re-read the current revision from disk (another process may have written it),
+    // store the application under the next revision number and record it.
+    // Fails when expectedRevision is given and another write already moved past it.
+    const commit = (app: AppConfig, author: string, expectedRevision?: number): Effect.Effect<AppConfig, StaleRevisionError | MongoDbError> =>
+      Effect.gen(function* () {
+        const file = appFile(app.applicationId);
+        const onDisk = yield* readJsonFile(file);
+        const currentRevision: number = onDisk?.revision ?? 0;
+        if (expectedRevision !== undefined && expectedRevision !== currentRevision) {
+          yield* logger.error("Stale revision", { applicationId: app.applicationId, expectedRevision, currentRevision });
+          return yield* Effect.fail(new StaleRevisionError({ applicationId: app.applicationId, expectedRevision, currentRevision }));
+        }
+
+        const next = { ...app, revision: currentRevision + 1 };
+        yield* writeFileAtomic(file, JSON.stringify(next, null, 2));
+        yield* recordRevision(next, author);
+        return next;
+      });
+
+    const createApplication = (config: AppConfig, author: string = SYSTEM_AUTHOR): Effect.Effect<AppConfig, SharedValidationError | ApplicationAlreadyExistsError | MongoDbError> =>
+      Effect.gen(function* () {
+        // Validate the entire application config
+        yield* validationService.validateApplicationConfig(config);
+
+        // Check uniqueness
+        if (yield* getApplication(config.applicationId)) {
+          yield* logger.error("Application already exists", { applicationId: config.applicationId });
+          return yield* Effect.fail(new ApplicationAlreadyExistsError({ applicationId: config.applicationId }));
+        }
+
+        // Expecting revision 0 also rejects an application another process created in the meantime
+        const toInsert = yield* withLock(commit({ ...config, lastUpdated: new Date() }, author, 0)).pipe(
+          Effect.catchTag("StaleRevisionError", () =>
+            Effect.fail(new ApplicationAlreadyExistsError({ applicationId: config.applicationId }))
+          )
+        );
+        yield* logger.info("Created application", { applicationId: config.applicationId });
+        return toInsert;
+      });
+
+    // Applies the update to the application on disk; only called under the lock
+    const applyUpdate = (
+      applicationId: string,
+      update: Partial<AppConfig>,
+      author: string,
+      expectedRevision?: number
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const existing = yield* getApplication(applicationId);
+        if (!existing) {
+          yield* logger.error("Application not found for update", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        // The route names the application: an id or revision in the update never redirects the write
+        const updated = { ...existing, ...update, applicationId, revision: existing.revision, lastUpdated: new Date() };
+
+        // Validate the updated configuration if schema or configs changed
+        if (
+          update.schema ||
+          update.defaultConfig ||
+          update.namedConfigs ||
+          update.allowVersionOverlap !== undefined ||
+          update.namedConfigMode !== undefined
+        ) {
+          yield* validationService.validateApplicationConfig(updated, true);
+        }
+
+        const result = yield* commit(updated, author, expectedRevision);
+        yield* logger.info("Updated application", { applicationId });
+        return result;
+      });
+
+    const updateApplication = (
+      applicationId: string,
+      update: Partial<AppConfig>,
+      author: string = SYSTEM_AUTHOR,
+      expectedRevision?: number
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | MongoDbError> =>
+      withLock(applyUpdate(applicationId, update, author, expectedRevision));
+
+    const archiveApplication = (applicationId: string, author: string = SYSTEM_AUTHOR): Effect.Effect<void, ApplicationNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for archive", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        // Direct update without validation since we're only changing the archived flag
+        const updated = { ...app, archived: true, lastUpdated: new Date() };
+        yield* commit(updated, author).pipe(Effect.catchTag("StaleRevisionError", Effect.die));
+        yield* logger.info("Archived application", { applicationId });
+      }).pipe(withLock);
+
+    const unarchiveApplication = (applicationId: string, author: string = SYSTEM_AUTHOR): Effect.Effect<void, ApplicationNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for unarchive", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        // Direct update without validation since we're only changing the archived flag
+        const updated = { ...app, archived: false, lastUpdated: new Date() };
+        yield* commit(updated, author).pipe(Effect.catchTag("StaleRevisionError", Effect.die));
+        yield* logger.info("Unarchived application", { applicationId });
+      }).pipe(withLock);
+
+    const getConfig = (request: ConfigRequest): Effect.Effect<ConfigResponse | null, MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(request.applicationId);
+        if (!app || app.archived) {
+          return null;
+        }
+
+        // Named config matching the version, or the default config
+        const { data, cacheControl: resolvedCacheControl, revision, lastUpdated } = resolveConfig(app, request.version, cacheControl);
+        return { data, cacheControl: resolvedCacheControl, revision, lastUpdated };
+      });
+
+    const explainConfig = (request: ConfigRequest): Effect.Effect<ConfigResolution, ApplicationNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(request.applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for resolution", { applicationId: request.applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId: request.applicationId }));
+        }
+        return resolveConfig(app, request.version, cacheControl);
+      });
+
+    const createNamedConfig = (
+      applicationId: string,
+      name: string,
+      data: any,
+      versions: string[],
+      author: string = SYSTEM_AUTHOR
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigAlreadyExistsError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for named config creation", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        if (app.namedConfigs[name]) {
+          yield* logger.error("Named config already exists", { applicationId, configName: name });
+          return yield* Effect.fail(new NamedConfigAlreadyExistsError({ applicationId, configName: name }));
+        }
+
+        // Validate versions
+        yield* validationService.validateSemverVersions(versions);
+
+        const update = {
+          ...app,
+          namedConfigs: {
+            ...app.namedConfigs,
+            [name]: { data, versions },
+          },
+        };
+
+        const result = yield* applyUpdate(applicationId, update, author);
+        yield* logger.info("Created named config", { applicationId, configName: name });
+        return result;
+      }).pipe(withLock);
+
+    const updateNamedConfig = (
+      applicationId: string,
+      name: string,
+      data: any,
+      versions: string[],
+      author: string = SYSTEM_AUTHOR,
+      expectedRevision?: number
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for named config update", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        if (!app.namedConfigs[name]) {
+          yield* logger.error("Named config not found for update", { applicationId, configName: name });
+          return yield* Effect.fail(new NamedConfigNotFoundError({ applicationId, configName: name }));
+        }
+
+        // Validate versions
+        yield* validationService.validateSemverVersions(versions);
+
+        const update = {
+          ...app,
+          namedConfigs: {
+            ...app.namedConfigs,
+            [name]: { data, versions },
+          },
+        };
+
+        const result = yield* applyUpdate(applicationId, update, author, expectedRevision);
+        yield* logger.info("Updated named config", { applicationId, configName: name });
+        return result;
+      }).pipe(withLock);
+
+    const deleteNamedConfig = (
+      applicationId: string,
+      name: string,
+      author: string = SYSTEM_AUTHOR
+    ): Effect.Effect<AppConfig, ApplicationNotFoundError | NamedConfigNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for named config deletion", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        if (!app.namedConfigs[name]) {
+          yield* logger.error("Named config not found for deletion", { applicationId, configName: name });
+          return yield* Effect.fail(new NamedConfigNotFoundError({ applicationId, configName: name }));
+        }
+
+        const { [name]: _, ...remainingConfigs } = app.namedConfigs;
+        const update = {
+          ...app,
+          namedConfigs: remainingConfigs,
+        };
+
+        // Use direct update to avoid validation since we're just removing a config
+        const updated = { ...update, lastUpdated: new Date() };
+        const result = yield* commit(updated, author).pipe(Effect.catchTag("StaleRevisionError", Effect.die));
+        yield* logger.info("Deleted named config", { applicationId, configName: name });
+        return result;
+      }).pipe(withLock);
+
+    const listRevisions = (applicationId: string): Effect.Effect<AppConfigRevision[], ApplicationNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for revision listing", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        const contents = yield* tryFileSystem(async () => {
+          try {
+            return await fs.readFile(revisionsFile(applicationId), "utf8");
+          } catch (error: any) {
+            if (error.code === "ENOENT") return "";
+            throw error;
+          }
+        });
+        return contents
+          .split("\n")
+          .filter((line) => line.trim() !== "")
+          .map((line) => reviveRevision(JSON.parse(line)))
+          .sort((a, b) => b.revision - a.revision);
+      });
+
+    const getRevision = (
+      applicationId: string,
+      revision: number
+    ): Effect.Effect<AppConfigRevision, ApplicationNotFoundError | RevisionNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const history = yield* listRevisions(applicationId);
+        const found = history.find((r) => r.revision === revision);
+        if (!found) {
+          yield* logger.error("Revision not found", { applicationId, revision });
+          return yield* Effect.fail(new RevisionNotFoundError({ applicationId, revision }));
+        }
+        return found;
+      });
+
+    const rollbackApplication = (
+      applicationId: string,
+      revision: number,
+      author: string = SYSTEM_AUTHOR
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | RevisionNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const target = yield* getRevision(applicationId, revision);
+
+        // The rollback itself is recorded as a new revision so history is never rewritten
+        const result = yield* applyUpdate(applicationId, rollbackUpdate(target.snapshot), author);
+        yield* logger.info("Rolled back application", { applicationId, revision });
+        return result;
+      }).pipe(withLock);
+
+    // The directory must still be readable and writable (e.g. a volume that was unmounted)
+    const healthCheck = (): Effect.Effect<StorageHealth, never> =>
+      probeHealth("filesystem", Effect.tryPromise(() => fs.access(directory, fsConstants.R_OK | fsConstants.W_OK)));
+
+    return {
+      listApplications,
+      getApplication,
+      createApplication,
+      updateApplication,
+      archiveApplication,
+      unarchiveApplication,
+      getConfig,
+      explainConfig,
+      createNamedConfig,
+      updateNamedConfig,
+      deleteNamedConfig,
+      listRevisions,
+      getRevision,
+      rollbackApplication,
+      healthCheck,
+    };
+  })
+).pipe(Layer.provide(DataValidationServiceLayer), Layer.provide(LoggerServiceLayer));
+
+// API tokens as one file each under tokens/, read from disk on every request so that all processes
+// sharing the directory see creations and revocations at once
+export const FileSystemApiTokenStoreLayer = Layer.effect(
+  ApiTokenStore,
+  Effect.gen(function* () {
+    const config = yield* Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions");
+    if (!config.filesystem) {
+      return yield* Effect.dieMessage("FileSystemApiTokenStoreLayer requires the filesystem option");
+    }
+
+    const tokensDirectory = path.join(path.resolve(config.filesystem.directory), "tokens");
+    // Token ids are generated hex strings, but never trust them as paths
+    const tokenFile = (tokenId: string) => path.join(tokensDirectory, fileNameOf(tokenId));
+    yield* tryFileSystem(() => fs.mkdir(tokensDirectory, { recursive: true }));
+
+    const get = (tokenId: string): Effect.Effect<ApiTokenRecord | null, MongoDbError> =>
+      readJsonFile(tokenFile(tokenId)).pipe(Effect.map((raw) => (raw ? reviveApiTokenRecord(raw) : null)));
+
+    const list = (): Effect.Effect<ApiTokenRecord[], MongoDbError> =>
+      Effect.gen(function* () {
+        const fileNames = yield* tryFileSystem(() => fs.readdir(tokensDirectory));
+        const records = yield* Effect.forEach(
+          fileNames.filter((name) => name.endsWith(".json")),
+          (name) => readJsonFile(path.join(tokensDirectory, name))
+        );
+        return records.filter((raw) => raw !== null).map(reviveApiTokenRecord);
+      });
+
+    const put = (record: ApiTokenRecord): Effect.Effect<void, MongoDbError> =>
+      writeFileAtomic(tokenFile(record.id), JSON.stringify(record, null, 2));
+
+    return { list, get, put };
+  })
+);
@@ -1,12 +1,12 @@
 // 9 Lines by Claude Sonnet
 // Pure Effect implementation of in-memory ConfigStorageService for development/testing
-import { Effect, Layer, Ref, Context } from "effect";
-import type { AppConfig, ConfigRequest, ConfigResponse, ConfigManagerOptions } from "../types.js";
-import { ApplicationNotFoundError, ApplicationAlreadyExistsError, NamedConfigNotFoundError, NamedConfigAlreadyExistsError, SharedValidationError } from "../types.js";
-import { ConfigStorageService } from "./ConfigStorageService.js";
+import { Effect, Either, Layer, Ref, Context } from "effect";
+import type { AppConfig, AppConfigRevision, ConfigRequest, ConfigResolution, ConfigResponse, ConfigManagerOptions, StorageHealth } from "../types.js";
+import { ApplicationNotFoundError, ApplicationAlreadyExistsError, NamedConfigNotFoundError, NamedConfigAlreadyExistsError, RevisionNotFoundError, StaleRevisionError, SharedValidationError } from "../types.js";
+import { ConfigStorageService, SYSTEM_AUTHOR, rollbackUpdate, probeHealth } from "./ConfigStorageService.js";
 import { DataValidationService, DataValidationServiceLayer } from "./DataValidationService.js";
 import { LoggerService, LoggerServiceLayer } from "./LoggerService.js";
-import * as semver from "semver";
+import { resolveConfig } from "../resolution/versionResolver.js";
 
 // 180 Lines by Claude Sonnet
 // Pure Effect implementation of InMemoryConfigService with never dependencies
@@ -17,6 +17,7 @@ export const InMemoryConfigServiceLayer = Layer.effect(
     const validationService = yield* DataValidationService;
     const logger = yield* LoggerService;
     const store = yield* Ref.make(new Map<string, AppConfig>());
+    const revisions = yield* Ref.make(new Map<string, AppConfigRevision[]>());
     const cacheControl = config.cacheControl;
 
     const listApplications = (): Effect.Effect<AppConfig[], never> =>
@@ -31,7 +32,44 @@ export const InMemoryConfigServiceLayer = Layer.effect(
         return apps.get(applicationId) || null;
       });
 
-    const createApplication = (config: AppConfig): Effect.Effect<AppConfig, SharedValidationError | ApplicationAlreadyExistsError> =>
+    // Append a snapshot of the stored application to its revision history
+    const recordRevision = (app: AppConfig, author: string): Effect.Effect<void, never> =>
+      Ref.update(revisions, (all) => {
+        const history = all.get(app.applicationId) || [];
+        const revision: AppConfigRevision = {
+          applicationId: app.applicationId,
+          revision: app.revision ?? 0,
+          author,
+          timestamp: app.lastUpdated,
+          snapshot: structuredClone(app),
+        };
+        return new Map(all).set(app.applicationId, [...history, revision]);
+      });
+
+    // Atomically store the application under the next revision number and record it.
+    // Fails when expectedRevision is given and another write already moved past it.
+    const commit = (app: AppConfig, author: string, expectedRevision?: number): Effect.Effect<AppConfig, StaleRevisionError> =>
+      Effect.gen(function* () {
+        const result = yield* Ref.modify(store, (apps): [Either.Either<AppConfig, StaleRevisionError>, Map<string, AppConfig>] => {
+          const currentRevision = apps.get(app.applicationId)?.revision ?? 0;
+          if (expectedRevision !== undefined && expectedRevision !== currentRevision) {
+            const error = new StaleRevisionError({ applicationId: app.applicationId, expectedRevision, currentRevision });
+            return [Either.left(error), apps];
+          }
+          const next = { ...app, revision: currentRevision + 1 };
+          return [Either.right(next), new Map(apps).set(app.applicationId, next)];
+        });
+
+        if (Either.isLeft(result)) {
+          yield* logger.error("Stale revision", { applicationId: app.applicationId, expectedRevision, currentRevision: result.left.currentRevision });
+          return yield* Effect.fail(result.left);
+        }
+
+        yield* recordRevision(result.right, author);
+        return result.right;
+      });
+
+    const createApplication = (config: AppConfig, author: string = SYSTEM_AUTHOR): Effect.Effect<AppConfig, SharedValidationError | ApplicationAlreadyExistsError> =>
       Effect.gen(function* () {
         // Validate the entire application config
         yield* validationService.validateApplicationConfig(config);
@@ -44,13 +82,17 @@ export const InMemoryConfigServiceLayer = Layer.effect(
         }
 
         // Add to store
-        const toInsert = { ...config, lastUpdated: new Date() };
-        yield* Ref.update(store, (apps) => new Map(apps).set(config.applicationId, toInsert));
+        const toInsert = yield* commit({ ...config, lastUpdated: new Date() }, author).pipe(Effect.orDie);
         yield* logger.info("Created application", { applicationId: config.applicationId });
         return toInsert;
       });
 
-    const updateApplication = (applicationId: string, update: Partial<AppConfig>): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError> =>
+    const updateApplication = (
+      applicationId: string,
+      update: Partial<AppConfig>,
+      author: string = SYSTEM_AUTHOR,
+      expectedRevision?: number
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError> =>
       Effect.gen(function* () {
         const existing = yield* getApplication(applicationId);
         if (!existing) {
@@ -58,19 +100,26 @@ export const InMemoryConfigServiceLayer = Layer.effect(
           return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
         }
 
-        const updated = { ...existing, ...update, lastUpdated: new Date() };
+        // The route names the application: an id or revision in the update never redirects the write
+        const updated = { ...existing, ...update, applicationId, revision: existing.revision, lastUpdated: new Date() };
 
         // Validate the updated configuration if schema or configs changed
-        if (update.schema || update.defaultConfig || update.namedConfigs) {
+        if (
+          update.schema ||
+          update.defaultConfig ||
+          update.namedConfigs ||
+          update.allowVersionOverlap !== undefined ||
+          update.namedConfigMode !== undefined
+        ) {
           yield* validationService.validateApplicationConfig(updated, true);
         }
 
-        yield* Ref.update(store, (apps) => new Map(apps).set(applicationId, updated));
+        const result = yield* commit(updated, author, expectedRevision);
         yield* logger.info("Updated application", { applicationId });
-        return updated;
+        return result;
       });
 
-    const archiveApplication = (applicationId: string): Effect.Effect<void, ApplicationNotFoundError> =>
+    const archiveApplication = (applicationId: string, author: string = SYSTEM_AUTHOR): Effect.Effect<void, ApplicationNotFoundError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
         if (!app) {
@@ -80,11 +129,11 @@ export const InMemoryConfigServiceLayer = Layer.effect(
 
         // Direct update without validation since we're only changing the archived flag
         const updated = { ...app, archived: true, lastUpdated: new Date() };
-        yield* Ref.update(store, (apps) => new Map(apps).set(applicationId, updated));
+        yield* commit(updated, author).pipe(Effect.orDie);
         yield* logger.info("Archived application", { applicationId });
       });
 
-    const unarchiveApplication = (applicationId: string): Effect.Effect<void, ApplicationNotFoundError> =>
+    const unarchiveApplication = (applicationId: string, author: string = SYSTEM_AUTHOR): Effect.Effect<void, ApplicationNotFoundError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
         if (!app) {
@@ -94,7 +143,7 @@ export const InMemoryConfigServiceLayer = Layer.effect(
 
         // Direct update without validation since we're only changing the archived flag
         const updated = { ...app, archived: false, lastUpdated: new Date() };
-        yield* Ref.update(store, (apps) => new Map(apps).set(applicationId, updated));
+        yield* commit(updated, author).pipe(Effect.orDie);
         yield* logger.info("Unarchived application", { applicationId });
       });
 
@@ -105,30 +154,27 @@ export const InMemoryConfigServiceLayer = Layer.effect(
           return null;
         }
 
-        // Find matching named config by version
-        for (const config of Object.values(app.namedConfigs)) {
-          if (config.versions.some((v: string) => semver.satisfies(request.version, v))) {
-            return {
-              data: config.data,
-              cacheControl: cacheControl?.maxAgeSeconds ? `max-age=${cacheControl.maxAgeSeconds}` : "no-cache",
-            };
-          }
-        }
+        // Named config matching the version, or the default config
+        const { data, cacheControl: resolvedCacheControl, revision, lastUpdated } = resolveConfig(app, request.version, cacheControl);
+        return { data, cacheControl: resolvedCacheControl, revision, lastUpdated };
+      });
 
-        // Return default config if no match
-        return {
-          data: app.defaultConfig.data,
-          cacheControl: cacheControl?.defaultMaxAgeSeconds
-            ? `max-age=${cacheControl.defaultMaxAgeSeconds}`
-            : "no-cache",
-        };
+    const explainConfig = (request: ConfigRequest): Effect.Effect<ConfigResolution, ApplicationNotFoundError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(request.applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for resolution", { applicationId: request.applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId: request.applicationId }));
+        }
+        return resolveConfig(app, request.version, cacheControl);
       });
 
     const createNamedConfig = (
       applicationId: string,
       name: string,
       data: any,
-      versions: string[]
+      versions: string[],
+      author: string = SYSTEM_AUTHOR
     ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigAlreadyExistsError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
@@ -153,7 +199,7 @@ export const InMemoryConfigServiceLayer = Layer.effect(
           },
         };
 
-        const result = yield* updateApplication(applicationId, update);
+        const result = yield* updateApplication(applicationId, update, author);
         yield* logger.info("Created named config", { applicationId, configName: name });
         return result;
       });
@@ -162,7 +208,9 @@ export const InMemoryConfigServiceLayer = Layer.effect(
       applicationId: string,
       name: string,
       data: any,
-      versions: string[]
+      versions: string[],
+      author: string = SYSTEM_AUTHOR,
+      expectedRevision?: number
     ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigNotFoundError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
@@ -187,12 +235,16 @@ export const InMemoryConfigServiceLayer = Layer.effect(
           },
         };
 
-        const result = yield* updateApplication(applicationId, update);
+        const result = yield* updateApplication(applicationId, update, author, expectedRevision);
         yield* logger.info("Updated named config", { applicationId, configName: name });
         return result;
       });
 
-    const deleteNamedConfig = (applicationId: string, name: string): Effect.Effect<AppConfig, ApplicationNotFoundError | NamedConfigNotFoundError> =>
+    const deleteNamedConfig = (
+      applicationId: string,
+      name: string,
+      author: string = SYSTEM_AUTHOR
+    ): Effect.Effect<AppConfig, ApplicationNotFoundError | NamedConfigNotFoundError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
         if (!app) {
@@ -213,11 +265,54 @@ export const InMemoryConfigServiceLayer = Layer.effect(
 
         // Use direct update to avoid validation since we're just removing a config
         const updated = { ...update, lastUpdated: new Date() };
-        yield* Ref.update(store, (apps) => new Map(apps).set(applicationId, updated));
+        const result = yield* commit(updated, author).pipe(Effect.orDie);
         yield* logger.info("Deleted named config", { applicationId, configName: name });
-        return updated;
+        return result;
       });
 
+    const listRevisions = (applicationId: string): Effect.Effect<AppConfigRevision[], ApplicationNotFoundError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for revision listing", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        const all = yield* Ref.get(revisions);
+        return [...(all.get(applicationId) || [])].sort((a, b) => b.revision - a.revision);
+      });
+
+    const getRevision = (
+      applicationId: string,
+      revision: number
+    ): Effect.Effect<AppConfigRevision, ApplicationNotFoundError | RevisionNotFoundError> =>
+      Effect.gen(function* () {
+        const history = yield* listRevisions(applicationId);
+        const found = history.find((r) => r.revision === revision);
+        if (!found) {
+          yield* logger.error("Revision not found", { applicationId, revision });
+          return yield* Effect.fail(new RevisionNotFoundError({ applicationId, revision }));
+        }
+        return found;
+      });
+
+    const rollbackApplication = (
+      applicationId: string,
+      revision: number,
+      author: string = SYSTEM_AUTHOR
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | RevisionNotFoundError> =>
+      Effect.gen(function* () {
+        const target = yield* getRevision(applicationId, revision);
+
+        // The rollback itself is recorded as a new revision so history is never rewritten
+        const result = yield* updateApplication(applicationId, rollbackUpdate(target.snapshot), author);
+        yield* logger.info("Rolled back application", { applicationId, revision });
+        return result;
+      });
+
+    // Nothing can be unreachable in memory, the probe only reports the backend
+    const healthCheck = (): Effect.Effect<StorageHealth, never> => probeHealth("in-memory", Ref.get(store));
+
     return {
       listApplications,
       getApplication,
@@ -226,9 +321,14 @@ export const InMemoryConfigServiceLayer = Layer.effect(
       archiveApplication,
       unarchiveApplication,
       getConfig,
+      explainConfig,
       createNamedConfig,
       updateNamedConfig,
       deleteNamedConfig,
+      listRevisions,
+      getRevision,
+      rollbackApplication,
+      healthCheck,
     };
   })
 ).pipe(Layer.provide(DataValidationServiceLayer), Layer.provide(LoggerServiceLayer));
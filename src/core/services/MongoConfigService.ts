@@ -1,116 +1,338 @@
 // 25 Lines by Claude Sonnet
 // Pure Effect implementation of MongoDB-backed ConfigStorageService with collection layer
-import { Effect, Layer, Context } from "effect";
-import { MongoClient, Collection } from "mongodb";
+import { Effect, Layer, Context, Ref, Schedule, Duration, Option } from "effect";
+import {
+  MongoClient,
+  MongoServerError,
+  Collection,
+  Db,
+  type Filter,
+  type MongoClientOptions,
+  type ChangeStream,
+  type ChangeStreamDocument,
+  type ResumeToken,
+} from "mongodb";
 import type {
+  ApiTokenRecord,
   AppConfig,
+  AppConfigRevision,
   ConfigRequest,
+  ConfigResolution,
   ConfigResponse,
   ConfigManagerOptions,
+  MongoDbError,
+  MongoStartupPolicy,
+  MongoChangeStreamOptions,
+  StorageHealth,
 } from "../types.js";
-import { ApplicationNotFoundError, ApplicationAlreadyExistsError, NamedConfigNotFoundError, NamedConfigAlreadyExistsError, SharedValidationError } from "../types.js";
-import { ConfigStorageService } from "./ConfigStorageService.js";
+import { MongoStartupError, ApplicationNotFoundError, ApplicationAlreadyExistsError, NamedConfigNotFoundError, NamedConfigAlreadyExistsError, RevisionNotFoundError, StaleRevisionError, SharedValidationError } from "../types.js";
+import { ConfigStorageService, SYSTEM_AUTHOR, rollbackUpdate, probeHealth } from "./ConfigStorageService.js";
 import { DataValidationService, DataValidationServiceLayer } from "./DataValidationService.js";
 import { LoggerService, LoggerServiceLayer } from "./LoggerService.js";
-import * as semver from "semver";
-
-// MongoDB Collection context tag
+import { ConfigChangeService } from "./ConfigChangeService.js";
+import { resolveConfig } from "../resolution/versionResolver.js";
+import { classifyMongoError } from "./mongoErrors.js";
+import { ApiTokenStore, reviveApiTokenRecord } from "./ApiTokenService.js";
+
+type MongoAppConfig = AppConfig & { _id?: unknown };
+
+// Matches the application only while it is still at the revision it was read at
+const atRevision = (applicationId: string, revision: number | undefined): Filter<AppConfig> =>
+  revision === undefined ? { applicationId, revision: { $exists: false } } : { applicationId, revision };
+
+const DEFAULT_STARTUP_POLICY: Required<MongoStartupPolicy> = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  onExhausted: "fail",
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+const CHANGE_STREAM_UNSUPPORTED_CODES = new Set([
+  40573, // $changeStream is only supported on replica sets
+  40324, // Unrecognized pipeline stage, e.g. servers predating change streams
+]);
+const CHANGE_STREAM_HISTORY_LOST = 286; // The resume token fell off the oplog
+
+const DEFAULT_CLIENT_OPTIONS: MongoClientOptions = {
+  serverSelectionTimeoutMS: 5000,
+  connectTimeoutMS: 10000,
+};
+
+// Default timeouts, unless the connection string sets them (options passed to the driver win over the URI)
+const clientOptionsFor = (url: string): MongoClientOptions => {
+  const query = new URLSearchParams(url.split("?")[1] ?? "");
+  const inUrl = new Set([...query.keys()].map((key) => key.toLowerCase()));
+  return Object.fromEntries(Object.entries(DEFAULT_CLIENT_OPTIONS).filter(([key]) => !inUrl.has(key.toLowerCase())));
+};
+
+// MongoDB Collection context tags
 export const MongoCollection = Context.GenericTag<Collection<AppConfig>>("MongoCollection");
+export const MongoRevisionCollection = Context.GenericTag<Collection<AppConfigRevision>>("MongoRevisionCollection");
+export const MongoDatabase = Context.GenericTag<Db>("MongoDatabase");
 
 // 60 Lines by Claude Sonnet
 // MongoDB collection layer that establishes connection for ConfigStorageService
-export const MongoCollectionLayer = Layer.effect(
-  MongoCollection,
+export const MongoCollectionLayer = Layer.effectContext(
   Effect.gen(function* () {
     const config = yield* Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions");
     const logger = yield* LoggerService;
 
     if (!config.mongodb) {
-      yield* logger.error("MongoDB configuration is required");
-      return {} as Collection<AppConfig>; // Return empty collection since we can't fail with never
+      return yield* Effect.dieMessage("MongoCollectionLayer requires the mongodb option");
     }
 
     const mongodb = config.mongodb!;
+    const policy = { ...DEFAULT_STARTUP_POLICY, ...mongodb.startup };
 
-    // Log connection attempt
-    yield* logger.info("Attempting MongoDB connection", {
-      host: mongodb.host,
-      port: mongodb.port,
-      database: mongodb.auth.database,
-    });
+    const url =
+      "uri" in mongodb
+        ? mongodb.uri
+        : `mongodb://${mongodb.auth.user}:${mongodb.auth.password}@${mongodb.host}:${mongodb.port}/${mongodb.auth.database}?authSource=${mongodb.auth.database}`;
+    const client = new MongoClient(url, clientOptionsFor(url));
+    const db = client.db("uri" in mongodb ? mongodb.database : mongodb.auth.database);
+    const collection = db.collection<AppConfig>(mongodb.collection);
+    const revisionCollection = db.collection<AppConfigRevision>(`${mongodb.collection}_revisions`);
 
-    // Create and connect client immediately
-    const collection = yield* Effect.tryPromise({
-      try: async () => {
-        const url = `mongodb://${mongodb.auth.user}:${mongodb.auth.password}@${mongodb.host}:${mongodb.port}/${mongodb.auth.database}?authSource=${mongodb.auth.database}`;
-        const client = new MongoClient(url, {
-          serverSelectionTimeoutMS: 5000,
-          connectTimeoutMS: 10000,
-        });
-        await client.connect();
-        
-        const db = client.db(mongodb.auth.database);
-        const collection = db.collection<AppConfig>(mongodb.collection);
-
-        // Add shutdown handler
-        process.on("SIGTERM", () => {
-          client.close().catch((err) => {
-            console.error("Error closing MongoDB connection", err);
-          });
-        });
+    // Hosts as parsed by the driver, so credentials in a connection string are never logged
+    const hosts = client.options.hosts.map(String).join(",");
 
-        return collection;
-      },
-      catch: (error) => {
-        console.error("MongoDB connection error", error);
-        return {} as Collection<AppConfig>; // Return empty collection since we can't fail with never
-      },
-    }).pipe(Effect.catchAll(() => Effect.succeed({} as Collection<AppConfig>)));
+    // Log connection attempt
+    yield* logger.info("Attempting MongoDB connection", { hosts, database: db.databaseName });
 
-    yield* logger.info("MongoDB connected for ConfigManager");
+    // Add shutdown handler
+    process.on("SIGTERM", () => {
+      client.close().catch((err) => {
+        console.error("Error closing MongoDB connection", err);
+      });
+    });
+
+    // connect() can be called again after a failure, and collections pick up the new connection
+    const attempts = yield* Ref.make(0);
+    const connect = Ref.update(attempts, (n) => n + 1).pipe(
+      Effect.zipRight(
+        Effect.tryPromise({
+          try: async () => {
+            await client.connect();
+            await revisionCollection.createIndex({ applicationId: 1, revision: -1 }, { unique: true });
+          },
+          catch: classifyMongoError,
+        })
+      ),
+      Effect.tapError((error) =>
+        Effect.gen(function* () {
+          const attempt = yield* Ref.get(attempts);
+          yield* logger.warn("MongoDB connection attempt failed", { hosts, attempt, tag: error._tag, message: error.message });
+        })
+      )
+    );
+
+    // Exponential backoff capped at maxDelayMs; bad credentials are not worth retrying
+    const backoff = Schedule.exponential(Duration.millis(policy.initialDelayMs)).pipe(
+      Schedule.either(Schedule.spaced(Duration.millis(policy.maxDelayMs)))
+    );
+    const startup = connect.pipe(
+      Effect.retry({
+        schedule: backoff.pipe(Schedule.intersect(Schedule.recurs(Math.max(policy.maxAttempts - 1, 0)))),
+        while: (error) => error._tag !== "MongoAuthError",
+      })
+    );
+
+    const connected = yield* startup.pipe(
+      Effect.as(true),
+      Effect.catchAll((error) =>
+        Effect.gen(function* () {
+          const attempted = yield* Ref.get(attempts);
+          const message = `Could not connect to MongoDB (${hosts}) after ${attempted} attempt(s): ${error.message}`;
+          if (policy.onExhausted === "fail") {
+            yield* logger.error(message);
+            return yield* Effect.fail(new MongoStartupError({ message, attempts: attempted, cause: error }));
+          }
+          // Operations answer 503 until a background reconnect succeeds
+          yield* logger.error(`${message}; starting degraded and retrying in the background`);
+          yield* connect.pipe(
+            Effect.retry(Schedule.spaced(Duration.millis(policy.maxDelayMs))),
+            Effect.tap(() => logger.info("MongoDB connected for ConfigManager")),
+            Effect.forkDaemon
+          );
+          return false;
+        })
+      )
+    );
+
+    if (connected) {
+      yield* logger.info("MongoDB connected for ConfigManager");
+    }
 
-    return collection;
+    return Context.make(MongoCollection, collection).pipe(
+      Context.add(MongoRevisionCollection, revisionCollection),
+      Context.add(MongoDatabase, db)
+    );
   })
 ).pipe(Layer.provide(LoggerServiceLayer));
 
+// Follows the application collection with a change stream, resuming after the last seen event whenever the
+// stream breaks. Servers without change streams (standalone mongod) are polled for lastUpdated instead.
+const watchApplicationChanges = (
+  collection: Collection<AppConfig>,
+  changes: ConfigChangeService,
+  logger: LoggerService,
+  options: MongoChangeStreamOptions
+): Effect.Effect<void, never> =>
+  Effect.gen(function* () {
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const resumeToken = yield* Ref.make<ResumeToken | undefined>(undefined);
+
+    const openStream = Ref.get(resumeToken).pipe(
+      Effect.map(
+        (token): ChangeStream<AppConfig, ChangeStreamDocument<AppConfig>> =>
+          collection.watch([{ $match: { operationType: { $in: ["insert", "update", "replace"] } } }], {
+            fullDocument: "updateLookup",
+            ...(token ? { resumeAfter: token } : {}),
+          })
+      )
+    );
+
+    // Publishes events until the stream fails, with the error that ended it
+    const follow = (stream: ChangeStream<AppConfig, ChangeStreamDocument<AppConfig>>) =>
+      Effect.tryPromise({ try: () => stream.next(), catch: (error) => error }).pipe(
+        Effect.flatMap((change) =>
+          Effect.gen(function* () {
+            yield* Ref.set(resumeToken, change._id);
+            // Without a full document (deleted since) the application is unknown, and nothing deletes applications
+            const app = "fullDocument" in change ? change.fullDocument : undefined;
+            if (app) {
+              yield* changes.publish({
+                applicationId: app.applicationId,
+                revision: app.revision,
+                lastUpdated: app.lastUpdated,
+                source: "change-stream",
+              });
+            }
+          })
+        ),
+        Effect.forever
+      );
+
+    const streamOnce = Effect.acquireUseRelease(openStream, follow, (stream) =>
+      Effect.promise(() => stream.close().catch(() => undefined))
+    );
+
+    // Each round ends when the stream breaks: true when change streams are unavailable, otherwise resume
+    const unsupported = (error: unknown) =>
+      error instanceof MongoServerError && typeof error.code === "number" && CHANGE_STREAM_UNSUPPORTED_CODES.has(error.code);
+    yield* streamOnce.pipe(
+      Effect.flip,
+      Effect.flatMap((error) =>
+        unsupported(error)
+          ? Effect.succeed(true)
+          : Effect.gen(function* () {
+              const message = error instanceof Error ? error.message : String(error);
+              if (error instanceof MongoServerError && error.code === CHANGE_STREAM_HISTORY_LOST) {
+                // Changes in between are missed; cached resolutions catch up when their TTL expires
+                yield* Ref.set(resumeToken, undefined);
+                yield* logger.warn("Change stream history lost, restarting from the current time", { message });
+              } else {
+                yield* logger.warn("Change stream interrupted, resuming", { message });
+              }
+              yield* Effect.sleep(Duration.millis(pollIntervalMs));
+              return false;
+            })
+      ),
+      Effect.repeat({ until: (done) => done })
+    );
+
+    yield* logger.warn("Change streams are not available, polling for application changes", { pollIntervalMs });
+
+    // Applications already published, by the lastUpdated that was published
+    const published = new Map<string, number>();
+    const since = yield* Ref.make(Date.now());
+    const poll = Effect.gen(function* () {
+      const from = yield* Ref.get(since);
+      // Look back one interval so writes stamped by a slightly slower clock on another instance are not missed
+      const updated = yield* Effect.tryPromise({
+        try: () =>
+          collection
+            .find(
+              { lastUpdated: { $gt: new Date(from - pollIntervalMs) } },
+              { projection: { _id: 0, applicationId: 1, revision: 1, lastUpdated: 1 } }
+            )
+            .sort({ lastUpdated: 1 })
+            .toArray(),
+        catch: classifyMongoError,
+      });
+      for (const app of updated) {
+        const lastUpdated = new Date(app.lastUpdated).getTime();
+        if (published.get(app.applicationId) === lastUpdated) {
+          continue;
+        }
+        published.set(app.applicationId, lastUpdated);
+        yield* changes.publish({ applicationId: app.applicationId, revision: app.revision, lastUpdated: app.lastUpdated, source: "poll" });
+        yield* Ref.update(since, (current) => Math.max(current, lastUpdated));
+      }
+    }).pipe(Effect.catchAll((error) => logger.warn("Polling for application changes failed", { tag: error._tag, message: error.message })));
+
+    yield* poll.pipe(Effect.repeat(Schedule.spaced(Duration.millis(pollIntervalMs))));
+  });
+
 // 220 Lines by Claude Sonnet
 // Pure Effect implementation of MongoDB ConfigStorageService with never dependencies
 export const MongoConfigServiceLayer = Layer.effect(
   ConfigStorageService,
   Effect.gen(function* () {
     const collection = yield* MongoCollection;
+    const revisionCollection = yield* MongoRevisionCollection;
+    const database = yield* MongoDatabase;
     const config = yield* Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions");
     const validationService = yield* DataValidationService;
     const logger = yield* LoggerService;
     const cacheControl = config.cacheControl;
 
-    const listApplications = (): Effect.Effect<AppConfig[], never> =>
+    const listApplications = (): Effect.Effect<AppConfig[], MongoDbError> =>
       Effect.gen(function* () {
         const result = yield* Effect.tryPromise({
           try: async () => {
             const apps = await collection.find({}).toArray();
             return apps;
           },
-          catch: () => [] as AppConfig[], // Return empty array on error
-        }).pipe(Effect.catchAll(() => Effect.succeed([] as AppConfig[])));
+          catch: classifyMongoError,
+        });
         
         return result;
       });
 
-    const getApplication = (applicationId: string): Effect.Effect<AppConfig | null, never> =>
+    const getApplication = (applicationId: string): Effect.Effect<AppConfig | null, MongoDbError> =>
       Effect.gen(function* () {
         const result = yield* Effect.tryPromise({
           try: async () => {
             const app = await collection.findOne({ applicationId });
             return app;
           },
-          catch: () => null,
-        }).pipe(Effect.catchAll(() => Effect.succeed(null)));
+          catch: classifyMongoError,
+        });
         
         return result;
       });
 
-    const createApplication = (config: AppConfig): Effect.Effect<AppConfig, SharedValidationError | ApplicationAlreadyExistsError> =>
+    // Append a snapshot of the stored application to its revision history
+    const recordRevision = (app: AppConfig, author: string): Effect.Effect<void, MongoDbError> =>
+      Effect.gen(function* () {
+        const { _id, ...snapshot } = app as MongoAppConfig;
+        yield* Effect.tryPromise({
+          try: () =>
+            revisionCollection.insertOne({
+              applicationId: app.applicationId,
+              revision: app.revision ?? 0,
+              author,
+              timestamp: app.lastUpdated,
+              snapshot,
+            }),
+          catch: classifyMongoError,
+        }).pipe(Effect.tapError(() => logger.error("Failed to record revision", { applicationId: app.applicationId })));
+      });
+
+    const createApplication = (config: AppConfig, author: string = SYSTEM_AUTHOR): Effect.Effect<AppConfig, SharedValidationError | ApplicationAlreadyExistsError | MongoDbError> =>
       Effect.gen(function* () {
         // Validate the entire application config
         yield* validationService.validateApplicationConfig(config);
@@ -118,31 +340,32 @@ export const MongoConfigServiceLayer = Layer.effect(
         // Check uniqueness
         const existing = yield* Effect.tryPromise({
           try: () => collection.findOne({ applicationId: config.applicationId }),
-          catch: () => null,
-        }).pipe(Effect.catchAll(() => Effect.succeed(null)));
+          catch: classifyMongoError,
+        });
 
         if (existing) {
           yield* logger.error("Application already exists", { applicationId: config.applicationId });
           return yield* Effect.fail(new ApplicationAlreadyExistsError({ applicationId: config.applicationId }));
         }
 
-        // Insert with lastUpdated
-        const toInsert = { ...config, lastUpdated: new Date() };
-        const success = yield* Effect.tryPromise({
-          try: () => collection.insertOne(toInsert as any),
-          catch: () => false,
-        }).pipe(Effect.catchAll(() => Effect.succeed(false)));
-
-        if (success) {
-          yield* logger.info("Created application", { applicationId: config.applicationId });
-        } else {
-          yield* logger.error("Failed to create application", { applicationId: config.applicationId });
-        }
+        // Insert with lastUpdated (copied so the driver does not add _id to the returned document)
+        const toInsert = { ...config, lastUpdated: new Date(), revision: 1 };
+        yield* Effect.tryPromise({
+          try: () => collection.insertOne({ ...toInsert } as any),
+          catch: classifyMongoError,
+        });
 
+        yield* recordRevision(toInsert, author);
+        yield* logger.info("Created application", { applicationId: config.applicationId });
         return toInsert;
       });
 
-    const updateApplication = (applicationId: string, update: Partial<AppConfig>): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError> =>
+    const updateApplication = (
+      applicationId: string,
+      update: Partial<AppConfig>,
+      author: string = SYSTEM_AUTHOR,
+      expectedRevision?: number
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | MongoDbError> =>
       Effect.gen(function* () {
         const existing = yield* getApplication(applicationId);
         if (!existing) {
@@ -150,30 +373,55 @@ export const MongoConfigServiceLayer = Layer.effect(
           return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
         }
 
-        type MongoAppConfig = AppConfig & { _id?: string };
-        const updatedRecord = { ...(existing as MongoAppConfig), ...update, lastUpdated: new Date() };
+        const currentRevision = existing.revision ?? 0;
+        if (expectedRevision !== undefined && expectedRevision !== currentRevision) {
+          yield* logger.error("Stale revision", { applicationId, expectedRevision, currentRevision });
+          return yield* Effect.fail(new StaleRevisionError({ applicationId, expectedRevision, currentRevision }));
+        }
+
+        // The route names the application: an id or revision in the update never redirects the write
+        const updatedRecord = { ...(existing as MongoAppConfig), ...update, applicationId, lastUpdated: new Date(), revision: currentRevision + 1 };
         const { _id, ...updated } = updatedRecord;
 
         // Validate the updated configuration if schema or configs changed
-        if (update.schema || update.defaultConfig || update.namedConfigs) {
+        if (
+          update.schema ||
+          update.defaultConfig ||
+          update.namedConfigs ||
+          update.allowVersionOverlap !== undefined ||
+          update.namedConfigMode !== undefined
+        ) {
           yield* validationService.validateApplicationConfig(updated, true);
         }
 
-        const success = yield* Effect.tryPromise({
-          try: () => collection.replaceOne({ applicationId }, updated),
-          catch: () => false,
-        }).pipe(Effect.catchAll(() => Effect.succeed(false)));
+        // Only replace the document if no other write landed since it was read
+        const matched = yield* Effect.tryPromise({
+          try: async () => {
+            const result = await collection.replaceOne(atRevision(applicationId, existing.revision), updated);
+            return result.matchedCount;
+          },
+          catch: classifyMongoError,
+        });
 
-        if (success) {
-          yield* logger.info("Updated application", { applicationId });
-        } else {
-          yield* logger.error("Failed to update application", { applicationId });
+        // Without an expected revision the last writer wins: start again from the current document
+        if (matched === 0 && expectedRevision === undefined) {
+          return yield* updateApplication(applicationId, update, author);
+        }
+        if (matched === 0) {
+          const latest = yield* getApplication(applicationId);
+          const latestRevision = latest?.revision ?? 0;
+          yield* logger.error("Stale revision", { applicationId, expectedRevision: currentRevision, currentRevision: latestRevision });
+          return yield* Effect.fail(
+            new StaleRevisionError({ applicationId, expectedRevision: currentRevision, currentRevision: latestRevision })
+          );
         }
 
+        yield* recordRevision(updated, author);
+        yield* logger.info("Updated application", { applicationId });
         return updated;
       });
 
-    const archiveApplication = (applicationId: string): Effect.Effect<void, ApplicationNotFoundError> =>
+    const archiveApplication = (applicationId: string, author: string = SYSTEM_AUTHOR): Effect.Effect<void, ApplicationNotFoundError | MongoDbError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
         if (!app) {
@@ -181,22 +429,27 @@ export const MongoConfigServiceLayer = Layer.effect(
           return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
         }
 
-        const success = yield* Effect.tryPromise({
-          try: async () => {
-            await collection.updateOne({ applicationId }, { $set: { archived: true, lastUpdated: new Date() } });
-            return true;
-          },
-          catch: () => false,
-        }).pipe(Effect.catchAll(() => Effect.succeed(false)));
+        const updated = yield* Effect.tryPromise({
+          try: () =>
+            collection.findOneAndUpdate(
+              { applicationId },
+              { $set: { archived: true, lastUpdated: new Date() }, $inc: { revision: 1 } },
+              { returnDocument: "after" }
+            ),
+          catch: classifyMongoError,
+        });
 
-        if (success) {
-          yield* logger.info("Archived application", { applicationId });
-        } else {
-          yield* logger.error("Failed to archive application", { applicationId });
+        // Deleted between the read above and this write
+        if (!updated) {
+          yield* logger.error("Application not found for archive", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
         }
+
+        yield* recordRevision(updated, author);
+        yield* logger.info("Archived application", { applicationId });
       });
 
-    const unarchiveApplication = (applicationId: string): Effect.Effect<void, ApplicationNotFoundError> =>
+    const unarchiveApplication = (applicationId: string, author: string = SYSTEM_AUTHOR): Effect.Effect<void, ApplicationNotFoundError | MongoDbError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
         if (!app) {
@@ -204,51 +457,55 @@ export const MongoConfigServiceLayer = Layer.effect(
           return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
         }
 
-        const success = yield* Effect.tryPromise({
-          try: async () => {
-            await collection.updateOne({ applicationId }, { $set: { archived: false, lastUpdated: new Date() } });
-            return true;
-          },
-          catch: () => false,
-        }).pipe(Effect.catchAll(() => Effect.succeed(false)));
+        const updated = yield* Effect.tryPromise({
+          try: () =>
+            collection.findOneAndUpdate(
+              { applicationId },
+              { $set: { archived: false, lastUpdated: new Date() }, $inc: { revision: 1 } },
+              { returnDocument: "after" }
+            ),
+          catch: classifyMongoError,
+        });
 
-        if (success) {
-          yield* logger.info("Unarchived application", { applicationId });
-        } else {
-          yield* logger.error("Failed to unarchive application", { applicationId });
+        // Deleted between the read above and this write
+        if (!updated) {
+          yield* logger.error("Application not found for unarchive", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
         }
+
+        yield* recordRevision(updated, author);
+        yield* logger.info("Unarchived application", { applicationId });
       });
 
-    const getConfig = (request: ConfigRequest): Effect.Effect<ConfigResponse | null, never> =>
+    const getConfig = (request: ConfigRequest): Effect.Effect<ConfigResponse | null, MongoDbError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(request.applicationId);
         if (!app || app.archived) {
           return null;
         }
 
-        // Find matching named config by version
-        for (const config of Object.values(app.namedConfigs)) {
-          if (config.versions.some((v: string) => semver.satisfies(request.version, v))) {
-            return {
-              data: config.data,
-              cacheControl: cacheControl?.maxAgeSeconds ? `max-age=${cacheControl.maxAgeSeconds}` : "no-cache", 
-            };
-          }
-        }
+        // Named config matching the version, or the default config
+        const { data, cacheControl: resolvedCacheControl, revision, lastUpdated } = resolveConfig(app, request.version, cacheControl);
+        return { data, cacheControl: resolvedCacheControl, revision, lastUpdated };
+      });
 
-        // Return default config if no match
-        return {
-          data: app.defaultConfig.data,
-          cacheControl: cacheControl?.defaultMaxAgeSeconds ? `max-age=${cacheControl.defaultMaxAgeSeconds}` : "no-cache", 
-        };
+    const explainConfig = (request: ConfigRequest): Effect.Effect<ConfigResolution, ApplicationNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(request.applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for resolution", { applicationId: request.applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId: request.applicationId }));
+        }
+        return resolveConfig(app, request.version, cacheControl);
       });
 
     const createNamedConfig = (
       applicationId: string,
       name: string,
       data: any,
-      versions: string[]
-    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigAlreadyExistsError> =>
+      versions: string[],
+      author: string = SYSTEM_AUTHOR
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigAlreadyExistsError | MongoDbError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
         if (!app) {
@@ -272,7 +529,7 @@ export const MongoConfigServiceLayer = Layer.effect(
           },
         };
 
-        const result = yield* updateApplication(applicationId, update);
+        const result = yield* updateApplication(applicationId, update, author);
         yield* logger.info("Created named config", { applicationId, configName: name });
         return result;
       });
@@ -281,8 +538,10 @@ export const MongoConfigServiceLayer = Layer.effect(
       applicationId: string,
       name: string,
       data: any,
-      versions: string[]
-    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigNotFoundError> =>
+      versions: string[],
+      author: string = SYSTEM_AUTHOR,
+      expectedRevision?: number
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | NamedConfigNotFoundError | MongoDbError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
         if (!app) {
@@ -306,12 +565,16 @@ export const MongoConfigServiceLayer = Layer.effect(
           },
         };
 
-        const result = yield* updateApplication(applicationId, update);
+        const result = yield* updateApplication(applicationId, update, author, expectedRevision);
         yield* logger.info("Updated named config", { applicationId, configName: name });
         return result;
       });
 
-    const deleteNamedConfig = (applicationId: string, name: string): Effect.Effect<AppConfig, ApplicationNotFoundError | NamedConfigNotFoundError> =>
+    const deleteNamedConfig = (
+      applicationId: string,
+      name: string,
+      author: string = SYSTEM_AUTHOR
+    ): Effect.Effect<AppConfig, ApplicationNotFoundError | NamedConfigNotFoundError | MongoDbError> =>
       Effect.gen(function* () {
         const app = yield* getApplication(applicationId);
         if (!app) {
@@ -324,31 +587,101 @@ export const MongoConfigServiceLayer = Layer.effect(
           return yield* Effect.fail(new NamedConfigNotFoundError({ applicationId, configName: name }));
         }
 
-        const { [name]: _, ...remainingConfigs } = app.namedConfigs;
-        const update = {
-          ...app,
-          namedConfigs: remainingConfigs,
+        // Replace the whole document rather than $unset the name: a name holding "." or starting with "$"
+        // would otherwise be read as a field path. No validation, since we're just removing a config
+        const { [name]: _removed, ...namedConfigs } = app.namedConfigs;
+        const { _id, ...updated } = {
+          ...(app as MongoAppConfig),
+          namedConfigs,
+          lastUpdated: new Date(),
+          revision: (app.revision ?? 0) + 1,
         };
 
-        // Direct MongoDB update to avoid validation since we're just removing a config
-        type MongoAppConfig = AppConfig & { _id?: string };
-        const updatedRecord = { ...(app as MongoAppConfig), ...update, lastUpdated: new Date() };
-        const { _id, ...updated } = updatedRecord;
-
-        const success = yield* Effect.tryPromise({
-          try: () => collection.replaceOne({ applicationId }, updated),
-          catch: () => false,
-        }).pipe(Effect.catchAll(() => Effect.succeed(false)));
+        // Only replace the document if no other write landed since it was read
+        const matched = yield* Effect.tryPromise({
+          try: async () => {
+            const result = await collection.replaceOne(atRevision(applicationId, app.revision), updated);
+            return result.matchedCount;
+          },
+          catch: classifyMongoError,
+        });
 
-        if (success) {
-          yield* logger.info("Deleted named config", { applicationId, configName: name });
-        } else {
-          yield* logger.error("Failed to delete named config", { applicationId, configName: name });
+        // Another write (or a deletion) landed in between: start again from the current document
+        if (matched === 0) {
+          return yield* deleteNamedConfig(applicationId, name, author);
         }
 
+        yield* recordRevision(updated, author);
+        yield* logger.info("Deleted named config", { applicationId, configName: name });
         return updated;
       });
 
+    const listRevisions = (applicationId: string): Effect.Effect<AppConfigRevision[], ApplicationNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for revision listing", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        const result = yield* Effect.tryPromise({
+          try: () =>
+            revisionCollection
+              .find({ applicationId }, { projection: { _id: 0 } })
+              .sort({ revision: -1 })
+              .toArray(),
+          catch: classifyMongoError,
+        });
+
+        return result;
+      });
+
+    const getRevision = (
+      applicationId: string,
+      revision: number
+    ): Effect.Effect<AppConfigRevision, ApplicationNotFoundError | RevisionNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const app = yield* getApplication(applicationId);
+        if (!app) {
+          yield* logger.error("Application not found for revision lookup", { applicationId });
+          return yield* Effect.fail(new ApplicationNotFoundError({ applicationId }));
+        }
+
+        const found = yield* Effect.tryPromise({
+          try: () => revisionCollection.findOne({ applicationId, revision }, { projection: { _id: 0 } }),
+          catch: classifyMongoError,
+        });
+
+        if (!found) {
+          yield* logger.error("Revision not found", { applicationId, revision });
+          return yield* Effect.fail(new RevisionNotFoundError({ applicationId, revision }));
+        }
+        return found;
+      });
+
+    const rollbackApplication = (
+      applicationId: string,
+      revision: number,
+      author: string = SYSTEM_AUTHOR
+    ): Effect.Effect<AppConfig, SharedValidationError | ApplicationNotFoundError | RevisionNotFoundError | MongoDbError> =>
+      Effect.gen(function* () {
+        const target = yield* getRevision(applicationId, revision);
+
+        // The rollback itself is recorded as a new revision so history is never rewritten
+        const result = yield* updateApplication(applicationId, rollbackUpdate(target.snapshot), author);
+        yield* logger.info("Rolled back application", { applicationId, revision });
+        return result;
+      });
+
+    const healthCheck = (): Effect.Effect<StorageHealth, never> =>
+      probeHealth("mongodb", Effect.tryPromise({ try: () => database.command({ ping: 1 }), catch: classifyMongoError }));
+
+    // Changes made by any instance are published when the change feed is available
+    const changes = yield* Effect.serviceOption(ConfigChangeService);
+    if (config.mongodb?.changeStream && Option.isSome(changes)) {
+      yield* watchApplicationChanges(collection, changes.value, logger, config.mongodb.changeStream).pipe(Effect.forkDaemon);
+    }
+
     return {
       listApplications,
       getApplication,
@@ -357,9 +690,42 @@ export const MongoConfigServiceLayer = Layer.effect(
       archiveApplication,
       unarchiveApplication,
       getConfig,
+      explainConfig,
       createNamedConfig,
       updateNamedConfig,
       deleteNamedConfig,
+      listRevisions,
+      getRevision,
+      rollbackApplication,
+      healthCheck,
     };
   })
 ).pipe(Layer.provide(MongoCollectionLayer), Layer.provide(DataValidationServiceLayer), Layer.provide(LoggerServiceLayer));
+
+// API tokens in a <collection>_tokens collection next to the applications, keyed by token id
+export const MongoApiTokenStoreLayer = Layer.effect(
+  ApiTokenStore,
+  Effect.gen(function* () {
+    const config = yield* Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions");
+    const database = yield* MongoDatabase;
+    const tokens = database.collection<ApiTokenRecord>(`${config.mongodb!.collection}_tokens`);
+
+    const fromDocument = ({ _id, ...raw }: ApiTokenRecord & { _id?: unknown }) => reviveApiTokenRecord(raw);
+
+    return {
+      list: () =>
+        Effect.tryPromise({ try: () => tokens.find({}).toArray(), catch: classifyMongoError }).pipe(
+          Effect.map((documents) => documents.map(fromDocument))
+        ),
+      get: (tokenId: string) =>
+        Effect.tryPromise({ try: () => tokens.findOne({ id: tokenId }), catch: classifyMongoError }).pipe(
+          Effect.map((document) => (document ? fromDocument(document) : null))
+        ),
+      put: (record: ApiTokenRecord) =>
+        Effect.tryPromise({
+          try: () => tokens.replaceOne({ id: record.id }, record, { upsert: true }),
+          catch: classifyMongoError,
+        }).pipe(Effect.asVoid),
+    };
+  })
+).pipe(Layer.provide(MongoCollectionLayer));
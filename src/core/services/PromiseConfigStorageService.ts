@@ -0,0 +1,102 @@
+// Adapter turning a plain object with promise-returning methods into a ConfigStorageService layer
+import { Effect, Layer } from "effect";
+import {
+  ConfigValidationError,
+  ApplicationNotFoundError,
+  ApplicationAlreadyExistsError,
+  NamedConfigNotFoundError,
+  NamedConfigAlreadyExistsError,
+  RevisionNotFoundError,
+  StaleRevisionError,
+  SemverValidationError,
+  VersionConflictError,
+  MongoNetworkError,
+  MongoAuthError,
+  WriteConflictError,
+  PoolExhaustedError,
+  UnexpectedServerError,
+  type ConfigServiceError,
+  type StorageHealth,
+} from "../types.js";
+import { ConfigStorageService } from "./ConfigStorageService.js";
+
+// Same methods and arguments as ConfigStorageService, resolving with the success value.
+// Expected failures are signalled by rejecting with one of the exported tagged error classes
+// (e.g. `new ApplicationNotFoundError({ applicationId })`, or `MongoNetworkError` when the store is
+// unreachable so clients get a 503); any other rejection is treated as a defect.
+export type PromiseConfigStorageService = {
+  [K in keyof ConfigStorageService]: (
+    ...args: Parameters<ConfigStorageService[K]>
+  ) => Promise<Effect.Effect.Success<ReturnType<ConfigStorageService[K]>>>;
+};
+
+const MONGO_DB_ERRORS = [MongoNetworkError, MongoAuthError, WriteConflictError, PoolExhaustedError, UnexpectedServerError];
+
+const STORAGE_ERRORS = [
+  ConfigValidationError,
+  ApplicationNotFoundError,
+  ApplicationAlreadyExistsError,
+  NamedConfigNotFoundError,
+  NamedConfigAlreadyExistsError,
+  RevisionNotFoundError,
+  StaleRevisionError,
+  SemverValidationError,
+  VersionConflictError,
+  ...MONGO_DB_ERRORS,
+];
+
+const isInstanceOf = (classes: readonly (new (...args: any[]) => unknown)[], error: unknown): boolean =>
+  classes.some((ErrorClass) => error instanceof ErrorClass);
+
+// Methods that can only fail with a MongoDbError: any other rejection there is a defect
+const READ_METHODS = new Set<keyof ConfigStorageService>(["listApplications", "getApplication", "getConfig"]);
+
+const METHODS: Exclude<keyof ConfigStorageService, "healthCheck">[] = [
+  "listApplications",
+  "getApplication",
+  "createApplication",
+  "updateApplication",
+  "archiveApplication",
+  "unarchiveApplication",
+  "getConfig",
+  "explainConfig",
+  "createNamedConfig",
+  "updateNamedConfig",
+  "deleteNamedConfig",
+  "listRevisions",
+  "getRevision",
+  "rollbackApplication",
+];
+
+const fromPromiseStorage = (storage: PromiseConfigStorageService): ConfigStorageService => {
+  const adapt = (method: keyof ConfigStorageService) => (...args: unknown[]) =>
+    Effect.tryPromise({
+      try: () => (storage[method] as (...args: unknown[]) => Promise<unknown>)(...args),
+      catch: (error) => error,
+    }).pipe(
+      Effect.catchAll((error) =>
+        isInstanceOf(READ_METHODS.has(method) ? MONGO_DB_ERRORS : STORAGE_ERRORS, error)
+          ? Effect.fail(error as ConfigServiceError)
+          : Effect.die(error)
+      )
+    );
+
+  // A rejected health check means the store is unhealthy rather than a defect
+  const healthCheck = (): Effect.Effect<StorageHealth, never> =>
+    Effect.tryPromise(() => storage.healthCheck()).pipe(
+      Effect.catchAll((error) =>
+        Effect.succeed({
+          backend: "custom",
+          healthy: false,
+          latencyMs: 0,
+          message: error.error instanceof Error ? error.error.message : String(error.error),
+        })
+      )
+    );
+
+  const adapted = Object.fromEntries(METHODS.map((method) => [method, adapt(method)])) as unknown as ConfigStorageService;
+  return { ...adapted, healthCheck };
+};
+
+export const createPromiseStorageLayer = (storage: PromiseConfigStorageService): Layer.Layer<ConfigStorageService> =>
+  Layer.succeed(ConfigStorageService, fromPromiseStorage(storage));
@@ -0,0 +1,168 @@
+// Read-through cache of resolved configs in front of ConfigStorageService, invalidated by every mutation
+import { Effect, Layer, Context, Option, Queue, Scope } from "effect";
+import type { AppConfig, ConfigManagerOptions, ConfigRequest, ConfigResponse, MongoDbError } from "../types.js";
+import type { ReadAccess } from "../auth/readKeys.js";
+import { lookupNamedConfig, type NamedConfigLookup } from "../resolution/versionResolver.js";
+import { ConfigStorageService } from "./ConfigStorageService.js";
+import { ConfigChangeService } from "./ConfigChangeService.js";
+
+const DEFAULT_TTL_SECONDS = 30;
+const DEFAULT_MAX_ENTRIES = 10000;
+
+export interface ResolutionCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  evictions: number; // Entries dropped to stay within maxEntries
+  invalidations: number; // Applications whose entries were dropped after a change
+  size: number;
+  maxEntries: number;
+  ttlSeconds: number;
+}
+
+export interface ResolutionCacheService {
+  stats(): Effect.Effect<ResolutionCacheStats, never>;
+  // Drops the cached resolutions of one application, e.g. when it changed on another instance
+  invalidate(applicationId: string): Effect.Effect<void, never>;
+  clear(): Effect.Effect<void, never>;
+  // Public flag and read keys of an application (null when missing), cached alongside its resolutions
+  // so that checking read keys does not cost a storage read per request
+  readAccess(applicationId: string): Effect.Effect<ReadAccess | null, MongoDbError>;
+  // A config requested by name (?name=), cached and invalidated like the resolutions by version
+  namedConfig(request: ConfigRequest, name: string): Effect.Effect<NamedConfigLookup, MongoDbError>;
+}
+
+export const ResolutionCacheService = Context.GenericTag<ResolutionCacheService>("ResolutionCacheService");
+
+interface CacheEntry {
+  applicationId: string;
+  value: ConfigResponse | ReadAccess | NamedConfigLookup | null; // Missing and archived applications are cached too
+  expiresAt: number;
+}
+
+// Wraps the ConfigStorageService it is given. Without the resolutionCache option it passes calls through
+// and only reports itself as disabled.
+export const ResolutionCacheServiceLayer = Layer.effectContext(
+  Effect.gen(function* () {
+    const config = yield* Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions");
+    const storage = yield* ConfigStorageService;
+
+    const enabled = config.resolutionCache !== undefined;
+    const ttlSeconds = config.resolutionCache?.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    const maxEntries = config.resolutionCache?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+    // Map iteration order doubles as recency: hits are moved to the end, eviction takes from the front
+    const entries = new Map<string, CacheEntry>();
+    // Bumped on every invalidation so a read that started before a change cannot cache the old value
+    const generations = new Map<string, number>();
+    const counters = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+    const keyOf = (request: ConfigRequest) => JSON.stringify([request.applicationId, request.version]);
+    const accessKeyOf = (applicationId: string) => JSON.stringify([applicationId]);
+    const namedKeyOf = (request: ConfigRequest, name: string) => JSON.stringify([request.applicationId, request.version, name]);
+
+    const invalidate = (applicationId: string): Effect.Effect<void, never> =>
+      Effect.sync(() => {
+        generations.set(applicationId, (generations.get(applicationId) ?? 0) + 1);
+        counters.invalidations++;
+        for (const [key, entry] of entries) {
+          if (entry.applicationId === applicationId) {
+            entries.delete(key);
+          }
+        }
+      });
+
+    const clear = (): Effect.Effect<void, never> =>
+      Effect.sync(() => {
+        for (const applicationId of new Set([...entries.values()].map((entry) => entry.applicationId))) {
+          generations.set(applicationId, (generations.get(applicationId) ?? 0) + 1);
+        }
+        entries.clear();
+      });
+
+    const stats = (): Effect.Effect<ResolutionCacheStats, never> =>
+      Effect.sync(() => ({ enabled, ...counters, size: entries.size, maxEntries, ttlSeconds }));
+
+    // Read-through lookup shared by resolutions and read access, which live in the same entries
+    const readThrough = <A extends CacheEntry["value"], E>(applicationId: string, key: string, load: Effect.Effect<A, E>) =>
+      Effect.gen(function* () {
+        const cached = entries.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+          counters.hits++;
+          entries.delete(key);
+          entries.set(key, cached);
+          return cached.value as A;
+        }
+
+        counters.misses++;
+        const generation = generations.get(applicationId) ?? 0;
+        const value = yield* load;
+
+        if ((generations.get(applicationId) ?? 0) === generation) {
+          entries.delete(key);
+          entries.set(key, { applicationId, value, expiresAt: Date.now() + ttlSeconds * 1000 });
+          while (entries.size > maxEntries) {
+            entries.delete(entries.keys().next().value!);
+            counters.evictions++;
+          }
+        }
+        return value;
+      });
+
+    const getConfig = (request: ConfigRequest) => readThrough(request.applicationId, keyOf(request), storage.getConfig(request));
+
+    const loadReadAccess = (applicationId: string) =>
+      storage
+        .getApplication(applicationId)
+        .pipe(Effect.map((app): ReadAccess | null => (app ? { public: app.public, readKeys: app.readKeys } : null)));
+
+    const readAccess = (applicationId: string) =>
+      enabled ? readThrough(applicationId, accessKeyOf(applicationId), loadReadAccess(applicationId)) : loadReadAccess(applicationId);
+
+    const loadNamedConfig = (request: ConfigRequest, name: string) =>
+      storage
+        .getApplication(request.applicationId)
+        .pipe(Effect.map((app) => lookupNamedConfig(app, name, request.version, config.cacheControl)));
+
+    const namedConfig = (request: ConfigRequest, name: string) =>
+      enabled ? readThrough(request.applicationId, namedKeyOf(request, name), loadNamedConfig(request, name)) : loadNamedConfig(request, name);
+
+    // Runs a mutation keyed by applicationId and drops the application's cached resolutions once it succeeded
+    const invalidating =
+      <Args extends [string, ...any[]], A, E>(mutation: (...args: Args) => Effect.Effect<A, E>) =>
+      (...args: Args): Effect.Effect<A, E> =>
+        mutation(...args).pipe(Effect.tap(() => invalidate(args[0])));
+
+    // Changes made by other instances, when the storage publishes them
+    const changes = yield* Effect.serviceOption(ConfigChangeService);
+    if (enabled && Option.isSome(changes)) {
+      // Subscribed before the layer is built so no change is missed; lives as long as the process
+      const subscription = yield* changes.value.subscribe().pipe(Scope.extend(yield* Scope.make()));
+      yield* Queue.take(subscription).pipe(
+        Effect.flatMap((event) => invalidate(event.applicationId)),
+        Effect.forever,
+        Effect.forkDaemon
+      );
+    }
+
+    const cached: ConfigStorageService = enabled
+      ? {
+          ...storage,
+          getConfig,
+          createApplication: (app: AppConfig, author?: string) =>
+            storage.createApplication(app, author).pipe(Effect.tap(() => invalidate(app.applicationId))),
+          updateApplication: invalidating(storage.updateApplication),
+          archiveApplication: invalidating(storage.archiveApplication),
+          unarchiveApplication: invalidating(storage.unarchiveApplication),
+          createNamedConfig: invalidating(storage.createNamedConfig),
+          updateNamedConfig: invalidating(storage.updateNamedConfig),
+          deleteNamedConfig: invalidating(storage.deleteNamedConfig),
+          rollbackApplication: invalidating(storage.rollbackApplication),
+        }
+      : storage;
+
+    return Context.make(ConfigStorageService, cached).pipe(
+      Context.add(ResolutionCacheService, { stats, invalidate, clear, readAccess, namedConfig })
+    );
+  })
+);
@@ -0,0 +1,69 @@
+// Classification of MongoDB driver errors into the tagged MongoDbError types
+import {
+  MongoNetworkError as DriverNetworkError,
+  MongoServerSelectionError,
+  MongoTopologyClosedError,
+  MongoNotConnectedError,
+  MongoClientClosedError,
+  MongoServerClosedError,
+  MongoOperationTimeoutError,
+  MongoMissingCredentialsError,
+  MongoServerError,
+} from "mongodb";
+import {
+  MongoNetworkError,
+  MongoAuthError,
+  WriteConflictError,
+  PoolExhaustedError,
+  UnexpectedServerError,
+  type MongoDbError,
+} from "../types.js";
+
+const AUTH_ERROR_CODES = new Set([
+  13, // Unauthorized
+  18, // AuthenticationFailed
+]);
+
+const WRITE_CONFLICT_CODES = new Set([
+  112, // WriteConflict
+  11000, // DuplicateKey, e.g. two writers recording the same revision
+]);
+
+const isServerErrorWithCode = (error: unknown, codes: Set<number>): error is MongoServerError =>
+  error instanceof MongoServerError && typeof error.code === "number" && codes.has(error.code);
+
+// Authentication failures during connection can surface wrapped, e.g. in a server selection error
+const isAuthFailure = (error: unknown): boolean =>
+  error instanceof MongoMissingCredentialsError ||
+  isServerErrorWithCode(error, AUTH_ERROR_CODES) ||
+  (error instanceof Error && error.cause !== undefined && error.cause !== error && isAuthFailure(error.cause));
+
+export const classifyMongoError = (error: unknown): MongoDbError => {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (isAuthFailure(error)) {
+    return new MongoAuthError({ message, cause: error });
+  }
+  // The driver does not export its wait queue timeout error, only its name is stable
+  if (error instanceof Error && error.name === "MongoWaitQueueTimeoutError") {
+    return new PoolExhaustedError({ message, cause: error });
+  }
+  if (
+    isServerErrorWithCode(error, WRITE_CONFLICT_CODES) ||
+    (error instanceof MongoServerError && error.hasErrorLabel("TransientTransactionError"))
+  ) {
+    return new WriteConflictError({ message, cause: error });
+  }
+  if (
+    error instanceof DriverNetworkError ||
+    error instanceof MongoServerSelectionError ||
+    error instanceof MongoTopologyClosedError ||
+    error instanceof MongoNotConnectedError ||
+    error instanceof MongoClientClosedError ||
+    error instanceof MongoServerClosedError ||
+    error instanceof MongoOperationTimeoutError
+  ) {
+    return new MongoNetworkError({ message, cause: error });
+  }
+  return new UnexpectedServerError({ message, cause: error });
+};
@@ -1,3 +1,7 @@
+import type { Layer } from "effect";
+import type { ConfigStorageService } from "./services/ConfigStorageService.js";
+import type { PromiseConfigStorageService } from "./services/PromiseConfigStorageService.js";
+
 export interface AppConfig {
   applicationId: string;
   archived: boolean;
@@ -5,17 +9,60 @@ export interface AppConfig {
   defaultConfig: ConfigData;
   schema: any;
   lastUpdated: Date;
+  allowVersionOverlap?: boolean; // Let named configs claim overlapping versions/ranges, resolved by precedence
+  namedConfigMode?: NamedConfigMode; // Defaults to "replace"
+  revision?: number; // Assigned by storage on every write, used for optimistic concurrency
+  public?: boolean; // Served without a read key, even when keys are required (see ConfigManagerOptions.readKeys)
+  readKeys?: ReadKey[]; // Once set, even empty, the public config API asks for one of these keys
+}
+
+// Client key for reading an application's config from the public API; only a hash of the key is stored
+export interface ReadKey {
+  id: string;
+  name?: string;
+  hash: string; // SHA-256 of the key, hex encoded
+  createdAt: Date;
+  expiresAt?: Date; // Set when the key is rotated out: it keeps working until then
 }
 
+// "replace": a named config's data is served as is.
+// "merge": a named config stores only overrides, deep-merged over the default config when served.
+export type NamedConfigMode = "replace" | "merge";
+
 export interface NamedConfig {
   data: any;
-  versions: string[];
+  versions: string[]; // Exact versions or semver ranges
 }
 
 export interface ConfigData {
   data: any;
 }
 
+// Result of probing the active storage backend, used by the readiness endpoint
+export interface StorageHealth {
+  backend: string; // e.g. "in-memory", "mongodb"
+  healthy: boolean;
+  latencyMs: number;
+  message?: string; // Why the backend is unhealthy
+}
+
+// An application was changed, possibly by another instance sharing the same storage
+export interface ApplicationChangeEvent {
+  applicationId: string;
+  revision?: number;
+  lastUpdated?: Date;
+  source: "local" | "change-stream" | "poll"; // Written through this instance, or how another instance's write was noticed
+}
+
+// Immutable snapshot of an application recorded on every write
+export interface AppConfigRevision {
+  applicationId: string;
+  revision: number;
+  author: string;
+  timestamp: Date;
+  snapshot: AppConfig;
+}
+
 // Logger interface inspired by the console object
 export interface Logger {
   debug(message: string, ...args: any[]): void;
@@ -28,6 +75,93 @@ export interface Logger {
 export interface CacheControl {
   defaultMaxAgeSeconds: number;
   maxAgeSeconds: number;
+  staleWhileRevalidateSeconds?: number; // Added as stale-while-revalidate to cacheable responses
+  staleIfErrorSeconds?: number; // Added as stale-if-error to cacheable responses
+}
+
+// Either a full connection string (replica sets, TLS, SRV...) or host, port and credentials
+export type MongoDbOptions = {
+  collection: string;
+  startup?: MongoStartupPolicy;
+  // Watches the collection for changes made by other instances (see ConfigChangeService)
+  changeStream?: MongoChangeStreamOptions;
+} & (
+  | {
+      uri: string;
+      database?: string; // Defaults to the database named in the connection string
+    }
+  | {
+      host: string;
+      port: number;
+      auth: {
+        database: string;
+        user: string;
+        password: string;
+      };
+    }
+);
+
+// Change streams need a replica set; other deployments fall back to polling lastUpdated
+export interface MongoChangeStreamOptions {
+  pollIntervalMs?: number; // Polling interval, also the delay before resuming a broken stream (defaults to 5000)
+}
+
+// How start() connects to MongoDB: attempts are retried with exponential backoff, then either
+// start() rejects ("fail") or the service starts answering 503 and keeps reconnecting ("degraded")
+export interface MongoStartupPolicy {
+  maxAttempts?: number; // Defaults to 5
+  initialDelayMs?: number; // Delay before the first retry, doubled on each attempt (defaults to 500)
+  maxDelayMs?: number; // Upper bound for the delay between attempts (defaults to 10000)
+  onExhausted?: "fail" | "degraded"; // Defaults to "fail"
+}
+
+// What an admin user may do with an application: viewers read, editors change configs,
+// owners also create, archive and roll back applications and change their schema
+export type AdminRole = "viewer" | "editor" | "owner";
+
+export interface AdminUser {
+  username: string;
+  password: string;
+  roles: Record<string, AdminRole>; // By applicationId; "*" applies to applications without their own entry
+}
+
+// What an API token may do on the applications it is scoped to: read them, write their named configs, archive them
+export type ApiTokenScope = "read" | "write" | "archive";
+
+// Bearer token for automation against the admin API, as listed by the API
+export interface ApiToken {
+  id: string; // Also the visible prefix of the secret
+  name: string;
+  applications: string[]; // applicationIds, "*" for every application
+  scopes: ApiTokenScope[];
+  createdBy: string;
+  // Roles of the creator when the token was created, by applicationId. Kept so that the token works
+  // after a restart for creators whose roles only live in memory, such as OIDC users.
+  creatorRoles?: Record<string, AdminRole>;
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date; // Revoked tokens are kept for the record but never accepted
+}
+
+// As persisted by an ApiTokenStore: only a hash of the secret is kept
+export interface ApiTokenRecord extends ApiToken {
+  secretHash: string;
+}
+
+// Sign-in through an OpenID Connect identity provider: admin requests carry JWTs it issued, verified
+// against its published keys, and its claims decide who the user is and which roles they have
+export interface OidcOptions {
+  issuer: string; // Required "iss" claim
+  audience?: string | string[]; // Accepted "aud" values, usually the client id registered for the admin UI
+  jwks: string; // JSON Web Key Set as a file path or an http(s) URL, such as the provider's jwks_uri
+  usernameClaim?: string; // Claim naming the user (defaults to preferred_username, then email, then sub)
+  rolesClaim?: string; // Dotted path to the claim listing groups or roles (defaults to "groups")
+  roleMappings?: Record<string, Record<string, AdminRole>>; // Roles by applicationId for each value of the roles claim
+  cookieName?: string; // Also read the JWT from this cookie, as set by an authenticating proxy
+  loginUrl?: string; // Where browsers opening the admin UI without a valid JWT are redirected
+  allowBasicAuth?: boolean; // Keep accepting the passwords of the configured admin users (defaults to false)
+  clockToleranceSeconds?: number; // Leeway for the exp, nbf and iat claims (defaults to 30)
 }
 
 export interface ConfigManagerOptions {
@@ -35,20 +169,38 @@ export interface ConfigManagerOptions {
   mountPath?: string; // Base path for mounting the app (defaults to '/configurator')
   logger: Logger;
   admin: {
-    username: string;
+    username: string; // Owner of every application
     password: string;
+    users?: AdminUser[]; // Further admin users with per-application roles
+    oidc?: OidcOptions; // Sign in with JWTs instead of the Basic Auth prompt
+  };
+  mongodb?: MongoDbOptions;
+  sqlite?: {
+    filename: string; // Database file, created if missing (":memory:" for a throwaway database)
   };
-  mongodb?: {
-    host: string;
-    port: number;
-    collection: string;
-    auth: {
-      database: string;
-      user: string;
-      password: string;
-    };
+  filesystem?: {
+    directory: string; // One JSON file per application, created if missing
+    lockTimeoutMs?: number; // How long a writer waits for the directory lock (defaults to 5000)
   };
+  // Custom storage used instead of the built-in backends: a Layer providing ConfigStorageService,
+  // or a plain object with promise-returning methods that is adapted into one
+  storage?: Layer.Layer<ConfigStorageService, never, ConfigManagerOptions> | PromiseConfigStorageService;
   cacheControl?: CacheControl;
+  // Read keys of the public config API, given in the X-Config-Key header or the ?key= query parameter
+  readKeys?: {
+    required?: boolean; // Ask for a key for every application not marked public, even those without keys (defaults to false)
+  };
+  // Live config updates over Server-Sent Events (GET /config/:applicationId/:version/stream)
+  stream?: {
+    heartbeatSeconds?: number; // Interval of keep-alive comments (defaults to 25)
+    maxConnections?: number; // Open streams across all clients (defaults to 1000)
+    maxConnectionsPerClient?: number; // Open streams per client IP address (defaults to 10)
+  };
+  // In-process cache of resolved configs for the public config API, invalidated on every admin change
+  resolutionCache?: {
+    ttlSeconds?: number; // How long a resolution is reused (defaults to 30)
+    maxEntries?: number; // Least recently used resolutions are evicted beyond this (defaults to 10000)
+  };
 }
 
 // 50 Lines by Claude Sonnet
@@ -85,6 +237,17 @@ export class NamedConfigAlreadyExistsError extends Data.TaggedError("NamedConfig
   configName: string;
 }> {}
 
+export class RevisionNotFoundError extends Data.TaggedError("RevisionNotFoundError")<{
+  applicationId: string;
+  revision: number;
+}> {}
+
+export class StaleRevisionError extends Data.TaggedError("StaleRevisionError")<{
+  applicationId: string;
+  expectedRevision: number;
+  currentRevision: number;
+}> {}
+
 export class SemverValidationError extends Data.TaggedError("SemverValidationError")<{
   errors: ValidationError[];
 }> {}
@@ -93,6 +256,7 @@ export class VersionConflictError extends Data.TaggedError("VersionConflictError
   version: string;
   existingConfigName: string;
   newConfigName: string;
+  existingVersion?: string; // Overlapping entry of the existing config when it differs from version
 }> {}
 
 // MongoDB-specific error types
@@ -121,6 +285,27 @@ export class UnexpectedServerError extends Data.TaggedError("UnexpectedServerErr
   cause?: unknown;
 }> {}
 
+export class ApiTokenNotFoundError extends Data.TaggedError("ApiTokenNotFoundError")<{
+  tokenId: string;
+}> {}
+
+export class ReadKeyNotFoundError extends Data.TaggedError("ReadKeyNotFoundError")<{
+  applicationId: string;
+  keyId: string;
+}> {}
+
+// Why a JWT presented to the admin API was not accepted
+export class JwtVerificationError extends Data.TaggedError("JwtVerificationError")<{
+  message: string;
+}> {}
+
+// Raised by start() when MongoDB could not be reached within the startup policy
+export class MongoStartupError extends Data.TaggedError("MongoStartupError")<{
+  message: string;
+  attempts: number;
+  cause?: unknown;
+}> {}
+
 // Error type unions
 export type SharedValidationError =
   | ConfigValidationError
@@ -128,6 +313,8 @@ export type SharedValidationError =
   | ApplicationAlreadyExistsError
   | NamedConfigNotFoundError
   | NamedConfigAlreadyExistsError
+  | RevisionNotFoundError
+  | StaleRevisionError
   | SemverValidationError
   | VersionConflictError;
 
@@ -138,7 +325,7 @@ export type MongoDbError =
   | PoolExhaustedError
   | UnexpectedServerError;
 
-export type ConfigServiceError = SharedValidationError | MongoDbError;
+export type ConfigServiceError = SharedValidationError | MongoDbError | ApiTokenNotFoundError | ReadKeyNotFoundError;
 
 export interface ConfigRequest {
   applicationId: string;
@@ -148,4 +335,20 @@ export interface ConfigRequest {
 export interface ConfigResponse {
   data: any;
   cacheControl: string;
+  revision?: number;
+  lastUpdated?: Date;
+}
+
+// How a version request resolves, as reported by the admin resolve endpoint
+export interface ConfigResolution {
+  applicationId: string;
+  version: string;
+  archived: boolean; // Archived applications are not served: the public endpoint responds 404
+  source: "named" | "default";
+  configName?: string;
+  matchedVersion?: string; // Version entry or range of the named config that matched
+  cacheControl: string;
+  revision?: number;
+  lastUpdated?: Date;
+  data: any;
 }
\ No newline at end of file
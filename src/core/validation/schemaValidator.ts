@@ -46,10 +46,11 @@ export function validateSemver(versions: string[]): Effect.Effect<ValidationErro
     const errors: ValidationError[] = [];
     
     versions.forEach((version, index) => {
-      if (!semver.valid(version)) {
+      // Accept exact versions and ranges such as ">=2.3.0 <3.0.0" or "~4.1" (an empty string would parse as "*")
+      if (typeof version !== "string" || version.trim() === "" || !semver.validRange(version)) {
         errors.push({
           field: `versions[${index}]`,
-          message: `Invalid semver: ${version}`,
+          message: `Invalid semver version or range: ${version}`,
           value: version
         });
       }
@@ -57,4 +58,13 @@ export function validateSemver(versions: string[]): Effect.Effect<ValidationErro
     
     return errors;
   });
+}
+
+// Whether some version can satisfy both entries (exact versions are treated as single-version ranges)
+export function versionsOverlap(a: string, b: string): boolean {
+  try {
+    return semver.intersects(a, b);
+  } catch {
+    return false;
+  }
 }
\ No newline at end of file
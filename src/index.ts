@@ -1,49 +1,168 @@
 // 20 Lines by Claude Opus
 // Main entry point for swishlyConfigManager package
-import { Effect, Layer, Context } from "effect";
+import { Effect, Layer, Context, Exit, Cause } from "effect";
 import express from "express";
-import type { ConfigManagerOptions } from "./core/types.js";
+import type { ConfigManagerOptions, MongoDbError, MongoStartupError } from "./core/types.js";
 import { ConfigStorageService } from "./core/services/ConfigStorageService.js";
 import { MongoConfigServiceLayer } from "./core/services/MongoConfigService.js";
 import { InMemoryConfigServiceLayer } from "./core/services/InMemoryConfigService.js";
+import { FileSystemConfigServiceLayer } from "./core/services/FileSystemConfigService.js";
+import { SqliteConfigServiceLayer } from "./core/services/SqliteConfigService.js";
+import { createPromiseStorageLayer } from "./core/services/PromiseConfigStorageService.js";
+import { ResolutionCacheService, ResolutionCacheServiceLayer } from "./core/services/ResolutionCacheService.js";
+import { ConfigChangeService, ConfigChangeServiceLayer, ConfigChangePublisherLayer } from "./core/services/ConfigChangeService.js";
+import { ApiTokenService, ApiTokenServiceLayer, InMemoryApiTokenStoreLayer, type ApiTokenStore } from "./core/services/ApiTokenService.js";
+import { MongoApiTokenStoreLayer } from "./core/services/MongoConfigService.js";
+import { SqliteApiTokenStoreLayer } from "./core/services/SqliteConfigService.js";
+import { FileSystemApiTokenStoreLayer } from "./core/services/FileSystemConfigService.js";
 import { createExpressApp } from "./server/app.js";
 import http from "http";
 
 // Re-export types for consumers
 export type { 
-  ConfigManagerOptions, 
+  ConfigManagerOptions,
+  AdminRole,
+  AdminUser, 
+  OidcOptions,
+  ApiToken,
+  ApiTokenScope,
+  MongoDbOptions,
+  MongoStartupPolicy,
+  MongoChangeStreamOptions,
+  ApplicationChangeEvent,
   AppConfig, 
+  AppConfigRevision,
   NamedConfig, 
+  NamedConfigMode,
+  ReadKey,
   ConfigData,
   ValidationError,
   ConfigRequest,
+  ConfigResolution,
   ConfigResponse 
 } from "./core/types.js";
 
+// Storage extension points for custom backends
+export { ConfigStorageService, SYSTEM_AUTHOR } from "./core/services/ConfigStorageService.js";
+export { createPromiseStorageLayer, type PromiseConfigStorageService } from "./core/services/PromiseConfigStorageService.js";
+export {
+  runStorageConformance,
+  type StorageConformanceOptions,
+  type StorageConformanceResult,
+} from "./core/conformance/storageConformance.js";
+export { ResolutionCacheService, type ResolutionCacheStats } from "./core/services/ResolutionCacheService.js";
+export { ConfigChangeService } from "./core/services/ConfigChangeService.js";
+export {
+  ApiTokenService,
+  ApiTokenStore,
+  InMemoryApiTokenStoreLayer,
+  type CreateApiTokenRequest,
+} from "./core/services/ApiTokenService.js";
+export { createJwtVerifier, type JwtVerifier, type JwtClaims } from "./core/auth/jwtVerifier.js";
+export {
+  schemaToTypeScript,
+  configTypeName,
+  type TypeScriptDeclarationOptions,
+} from "./core/codegen/schemaToTypeScript.js";
+export {
+  ConfigValidationError,
+  ApiTokenNotFoundError,
+  JwtVerificationError,
+  ReadKeyNotFoundError,
+  ApplicationNotFoundError,
+  ApplicationAlreadyExistsError,
+  NamedConfigNotFoundError,
+  NamedConfigAlreadyExistsError,
+  RevisionNotFoundError,
+  StaleRevisionError,
+  SemverValidationError,
+  VersionConflictError,
+  MongoNetworkError,
+  MongoAuthError,
+  WriteConflictError,
+  PoolExhaustedError,
+  UnexpectedServerError,
+  MongoStartupError,
+  type SharedValidationError,
+  type MongoDbError,
+  type ConfigServiceError,
+} from "./core/types.js";
+
 // Export client utilities
-export { ConfigClient, createConfigClient, type ConfigClientOptions } from "./client.js";
+export {
+  ConfigClient,
+  ConfigWatcher,
+  createConfigClient,
+  ConfigClientError,
+  ConfigNotFoundError,
+  ConfigAccessDeniedError,
+  InvalidVersionError,
+  ConfigServerError,
+  ConfigUnreachableError,
+  InvalidConfigError,
+  type ConfigClientOptions,
+  type ConfigFallbackSource,
+  type ConfigChangeEvent,
+  type ConfigChangeListener,
+  type WatchOptions,
+} from "./client.js";
+
+// Custom storage is given either as a Layer or as a promise-based object
+const isStorageLayer = (
+  storage: NonNullable<ConfigManagerOptions["storage"]>
+): storage is Layer.Layer<ConfigStorageService, never, ConfigManagerOptions> => Layer.isLayer(storage);
 
 export const configManager = {
   async start(options: ConfigManagerOptions): Promise<void> {
     // Create the config layer
     const configLayer = Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), options);
 
-    // Create the appropriate service layer based on config
-    const serviceLayer = options.mongodb ? MongoConfigServiceLayer : InMemoryConfigServiceLayer;
+    // Create the appropriate service layer based on config, preferring a custom storage.
+    // Building it fails when the store cannot be reached or opened.
+    const serviceLayer: Layer.Layer<ConfigStorageService, MongoStartupError | MongoDbError, ConfigManagerOptions> = options.storage
+      ? isStorageLayer(options.storage)
+        ? options.storage
+        : createPromiseStorageLayer(options.storage)
+      : options.mongodb
+        ? MongoConfigServiceLayer
+        : options.sqlite
+          ? SqliteConfigServiceLayer
+          : options.filesystem
+            ? FileSystemConfigServiceLayer
+            : InMemoryConfigServiceLayer;
+
+    // API tokens live next to the applications; custom storage keeps them in memory
+    const tokenStoreLayer: Layer.Layer<ApiTokenStore, MongoStartupError | MongoDbError, ConfigManagerOptions> = options.storage
+      ? InMemoryApiTokenStoreLayer
+      : options.mongodb
+        ? MongoApiTokenStoreLayer
+        : options.sqlite
+          ? SqliteApiTokenStoreLayer
+          : options.filesystem
+            ? FileSystemApiTokenStoreLayer
+            : InMemoryApiTokenStoreLayer;
 
-    // Build the complete layer
-    const appLayer = Layer.provide(serviceLayer, configLayer);
+    // Build the complete layer: writes are published on the change feed, with the resolution cache in front
+    const publishingLayer = Layer.provide(ConfigChangePublisherLayer, serviceLayer);
+    const appLayer = Layer.provide(ResolutionCacheServiceLayer, publishingLayer).pipe(
+      Layer.provideMerge(ConfigChangeServiceLayer),
+      Layer.merge(Layer.provide(ApiTokenServiceLayer, tokenStoreLayer)),
+      Layer.provide(configLayer)
+    );
 
     // Create program
     const program = Effect.gen(function* () {
       const service = yield* ConfigStorageService;
+      const cache = yield* ResolutionCacheService;
+      const changes = yield* ConfigChangeService;
+      const tokens = yield* ApiTokenService;
 
       // Use provided mountPath or default to '/configurator'
       const mountPath = options.mountPath || '/configurator';
 
       // Create and start Express app
       const app = express();
-      const configuratorApp = createExpressApp(options, service);
+      const configuratorApp = createExpressApp(options, service, cache, changes, tokens);
       app.use(mountPath, configuratorApp);
       const server = http.createServer(app);
 
@@ -71,7 +190,10 @@ export const configManager = {
       });
     });
 
-    // Run the program with the layer
-    await program.pipe(Effect.provide(appLayer), Effect.runPromise);
+    // Run the program with the layer, rejecting with the underlying error (e.g. MongoStartupError)
+    const exit = await program.pipe(Effect.provide(appLayer), Effect.runPromiseExit);
+    if (Exit.isFailure(exit)) {
+      throw Cause.squash(exit.cause);
+    }
   },
 };
@@ -0,0 +1,171 @@
+// React bindings for ConfigClient - a provider sharing one config fetch across components and a useConfig hook
+import { createContext, useContext, useEffect, useMemo, useSyncExternalStore, type ReactNode } from "react";
+import type { ConfigClient, WatchOptions } from "./client.js";
+
+const DEFAULT_NAMED_REFRESH_MS = 30000;
+
+/**
+ * Where a ConfigStore gets its config: fetched by a ConfigClient, or a static value (tests, storybooks)
+ */
+export type ConfigSource<T = any> =
+  | {
+      client: ConfigClient;
+      version: string;
+      configName?: string;
+      // Keep the config fresh: true, or the options of client.watch
+      live?: boolean | WatchOptions;
+    }
+  | { config: T };
+
+export interface ConfigSnapshot<T = any> {
+  config: T | undefined; // Last config received, kept when a later refresh fails
+  loading: boolean; // true until the first config or error
+  error: Error | undefined; // Last failure, cleared by the next config
+}
+
+export interface ConfigState<T = any> extends ConfigSnapshot<T> {
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Holds the config of one source for any number of subscribers, framework-agnostic.
+ * Concurrent refreshes share one request.
+ */
+export class ConfigStore<T = any> {
+  private snapshot: ConfigSnapshot<T>;
+  private listeners = new Set<() => void>();
+  private pending?: Promise<void>;
+  private connections = 0;
+  private stopUpdates?: () => void;
+
+  constructor(private readonly source: ConfigSource<T>) {
+    this.snapshot = "client" in source
+      ? { config: undefined, loading: true, error: undefined }
+      : { config: source.config, loading: false, error: undefined };
+  }
+
+  getSnapshot = (): ConfigSnapshot<T> => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  refresh = (): Promise<void> => {
+    const source = this.source;
+    if (!("client" in source)) {
+      return Promise.resolve();
+    }
+    this.pending ??= source.client
+      .getConfig<T>(source.version, source.configName)
+      .then(
+        (config) => this.set({ config, loading: false, error: undefined }),
+        (error) => this.fail(error)
+      )
+      .finally(() => {
+        this.pending = undefined;
+      });
+    return this.pending;
+  };
+
+  /**
+   * Fetch the config, and follow it when live. Returns a function that stops following once every
+   * caller has stopped, so a store can be shared by several mounts (and StrictMode double effects).
+   */
+  start(): () => void {
+    if (this.connections++ === 0) {
+      this.stopUpdates = this.follow();
+    }
+    let stopped = false;
+    return () => {
+      if (stopped) {
+        return;
+      }
+      stopped = true;
+      if (--this.connections === 0) {
+        this.stopUpdates?.();
+        this.stopUpdates = undefined;
+      }
+    };
+  }
+
+  private follow(): (() => void) | undefined {
+    const source = this.source;
+    if (!("client" in source)) {
+      return undefined;
+    }
+    if (!source.live) {
+      void this.refresh();
+      return undefined;
+    }
+    const options = source.live === true ? {} : source.live;
+    // Watchers follow the version's resolution, so named configs are refetched on an interval instead
+    if (source.configName !== undefined) {
+      void this.refresh();
+      const timer = setInterval(this.refresh, options.pollIntervalMs ?? DEFAULT_NAMED_REFRESH_MS);
+      return () => clearInterval(timer);
+    }
+    const watcher = source.client.watch<T>(
+      source.version,
+      ({ current }) => this.set({ config: current, loading: false, error: undefined }),
+      {
+        ...options,
+        onError: (error) => {
+          options.onError?.(error);
+          this.fail(error);
+        },
+      }
+    );
+    return () => watcher.close();
+  }
+
+  private fail(error: unknown): void {
+    this.set({ ...this.snapshot, loading: false, error: error instanceof Error ? error : new Error(String(error)) });
+  }
+
+  private set(snapshot: ConfigSnapshot<T>): void {
+    this.snapshot = snapshot;
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+const ConfigContext = createContext<ConfigStore | undefined>(undefined);
+
+export type ConfigProviderProps<T = any> = ConfigSource<T> & { children?: ReactNode };
+
+/**
+ * Fetches the config once for every useConfig below it. A new store is created when the client,
+ * version, config name or static config change; live options are read when it is created.
+ */
+export function ConfigProvider<T = any>(props: ConfigProviderProps<T>) {
+  const { children, ...source } = props;
+  const client = "client" in source ? source.client : undefined;
+  const version = "client" in source ? source.version : undefined;
+  const configName = "client" in source ? source.configName : undefined;
+  const config = "config" in source ? source.config : undefined;
+  const store = useMemo(() => new ConfigStore<T>(source), [client, version, configName, config]);
+  useEffect(() => store.start(), [store]);
+  return <ConfigContext.Provider value={store}>{children}</ConfigContext.Provider>;
+}
+
+function select(config: any, path: string): any {
+  return path.split(".").reduce((value, key) => (value == null ? undefined : value[key]), config);
+}
+
+/**
+ * Config of the nearest ConfigProvider, or the value at a dotted path within it (e.g. "features.darkMode")
+ */
+export function useConfig<T = any>(path?: string): ConfigState<T> {
+  const store = useContext(ConfigContext);
+  if (!store) {
+    throw new Error("useConfig must be used inside a ConfigProvider");
+  }
+  const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+  return {
+    ...snapshot,
+    config: path ? select(snapshot.config, path) : snapshot.config,
+    refresh: store.refresh,
+  };
+}
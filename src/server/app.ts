@@ -1,20 +1,32 @@
 // 15 Lines by Claude Opus
 // Express server setup for ConfigManager
 import express from "express";
+import { Effect } from "effect";
 import compression from "compression";
 import path from "path";
 import fs from "fs";
 import { fileURLToPath } from "url";
 import type { ConfigManagerOptions } from "../core/types.js";
 import type { ConfigStorageService } from "../core/services/ConfigStorageService.js";
-import { createBasicAuth } from "./middleware/basicAuth.js";
+import type { ResolutionCacheService } from "../core/services/ResolutionCacheService.js";
+import type { ConfigChangeService } from "../core/services/ConfigChangeService.js";
+import type { ApiTokenService } from "../core/services/ApiTokenService.js";
+import { createAdminAuth } from "./middleware/tokenAuth.js";
+import { createAdminAccess } from "./middleware/authorization.js";
 import { createConfigRoutes } from "./routes/configRoutes.js";
+import { createStreamRoutes } from "./routes/streamRoutes.js";
 import { createAdminRoutes } from "./routes/adminRoutes.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-export function createExpressApp(config: ConfigManagerOptions, service: ConfigStorageService): express.Application {
+export function createExpressApp(
+  config: ConfigManagerOptions,
+  service: ConfigStorageService,
+  cache?: ResolutionCacheService,
+  changes?: ConfigChangeService,
+  tokens?: ApiTokenService
+): express.Application {
   const app = express();
 
   // Middleware
@@ -28,11 +40,13 @@ export function createExpressApp(config: ConfigManagerOptions, service: ConfigSt
   });
 
   // Public config API routes
-  app.use(createConfigRoutes(service, config.logger));
+  app.use(createConfigRoutes(service, config.logger, config.cacheControl, config.readKeys, cache));
+  app.use(createStreamRoutes(config, service, changes, cache));
 
-  // Admin routes (protected)
-  const adminAuth = createBasicAuth(config);
-  app.use("/api/admin", adminAuth, createAdminRoutes(service, config.logger));
+  // Admin routes (protected), also open to API tokens
+  const access = createAdminAccess(config.admin);
+  app.use("/api/admin", createAdminAuth(config, access, { tokens }), createAdminRoutes(service, config.logger, access, cache, tokens));
+  const adminAuth = createAdminAuth(config, access, { redirectToLogin: true });
 
   // Serve React admin UI
   const publicPath = path.join(__dirname, "../../public");
@@ -62,6 +76,20 @@ export function createExpressApp(config: ConfigManagerOptions, service: ConfigSt
     res.json({ status: "ok", service: "ConfigManager" });
   });
 
+  // Liveness: the process is up and serving requests, regardless of its dependencies
+  app.get("/health/live", (_req, res) => {
+    res.json({ status: "ok", service: "ConfigManager" });
+  });
+
+  // Readiness: the storage backend answers, so traffic can be routed here
+  app.get("/health/ready", async (_req, res) => {
+    const storage = await Effect.runPromise(service.healthCheck());
+    if (!storage.healthy) {
+      config.logger.warn("Readiness check failed", storage);
+    }
+    res.status(storage.healthy ? 200 : 503).json({ status: storage.healthy ? "ready" : "unavailable", storage });
+  });
+
   // Error handling
   app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
     config.logger.error("Unhandled error", err);
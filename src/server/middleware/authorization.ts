@@ -0,0 +1,153 @@
+// Per-application roles of admin users and scopes of API tokens, enforced by the admin routes
+import type { Request, RequestHandler, Response } from "express";
+import type { AdminRole, ApiToken, ApiTokenScope, ConfigManagerOptions, OidcOptions } from "../../core/types.js";
+import type { JwtClaims } from "../../core/auth/jwtVerifier.js";
+import type { TokenAuthedRequest } from "./tokenAuth.js";
+
+const RANK: Record<AdminRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+// Role a user needs on an application to grant a token scope on it
+export const SCOPE_ROLE: Record<ApiTokenScope, AdminRole> = { read: "viewer", write: "editor", archive: "owner" };
+
+export interface AdminAccess {
+  // Roles of a user by applicationId, "*" for the applications without their own entry
+  rolesOf(username: string): Record<string, AdminRole>;
+  roleOf(username: string, applicationId: string): AdminRole | undefined;
+  can(username: string, applicationId: string, role: AdminRole): boolean;
+  // Whether this process knows the roles of the user: configured, or signed in through OIDC since it started
+  knows(username: string): boolean;
+  // Records the roles of a user signed in through OIDC, as of their latest JWT. Refused for the names of
+  // configured users, so an identity provider can never speak for them.
+  grant(username: string, roles: Record<string, AdminRole>): boolean;
+}
+
+const roleIn = (roles: Record<string, AdminRole>, applicationId: string): AdminRole | undefined =>
+  Object.hasOwn(roles, applicationId) ? roles[applicationId] : roles["*"];
+
+const atLeast = (granted: AdminRole | undefined, role: AdminRole): boolean => granted !== undefined && RANK[granted] >= RANK[role];
+
+export function createAdminAccess(admin: ConfigManagerOptions["admin"]): AdminAccess {
+  const roles = new Map<string, Record<string, AdminRole>>();
+  // With OIDC the configured users only exist when their passwords are still accepted
+  if (!admin.oidc || admin.oidc.allowBasicAuth) {
+    for (const user of admin.users ?? []) {
+      roles.set(user.username, user.roles);
+    }
+    // The configured admin owns everything, whatever the users list says
+    roles.set(admin.username, { "*": "owner" });
+  }
+  const configured = new Set(roles.keys());
+
+  const rolesOf = (username: string) => roles.get(username) ?? {};
+  const roleOf = (username: string, applicationId: string) => roleIn(rolesOf(username), applicationId);
+  return {
+    rolesOf,
+    roleOf,
+    can: (username, applicationId, role) => atLeast(roleOf(username, applicationId), role),
+    knows: (username) => roles.has(username),
+    grant: (username, userRoles) => {
+      if (configured.has(username)) {
+        return false;
+      }
+      roles.set(username, userRoles);
+      return true;
+    },
+  };
+}
+
+const claimAt = (claims: JwtClaims, path: string): unknown =>
+  path.split(".").reduce<unknown>((value, key) => (value && typeof value === "object" ? (value as any)[key] : undefined), claims);
+
+// Name of an OIDC user, from the configured claim or the usual ones
+export function usernameFromClaims(claims: JwtClaims, oidc: OidcOptions): string | undefined {
+  const names = oidc.usernameClaim ? [oidc.usernameClaim] : ["preferred_username", "email", "sub"];
+  const username = names.map((name) => claimAt(claims, name)).find((value) => typeof value === "string" && value);
+  return username as string | undefined;
+}
+
+// Roles of an OIDC user: each value of the roles claim maps to roles by applicationId, the highest winning
+export function rolesFromClaims(claims: JwtClaims, oidc: OidcOptions): Record<string, AdminRole> {
+  const values = [claimAt(claims, oidc.rolesClaim ?? "groups")].flat().filter((value): value is string => typeof value === "string");
+  const roles: Record<string, AdminRole> = {};
+  for (const value of values) {
+    const mapped = oidc.roleMappings && Object.hasOwn(oidc.roleMappings, value) ? oidc.roleMappings[value] : {};
+    for (const [applicationId, role] of Object.entries(mapped)) {
+      if (!roles[applicationId] || RANK[role] > RANK[roles[applicationId]]) {
+        roles[applicationId] = role;
+      }
+    }
+  }
+  return roles;
+}
+
+// Admin user performing the request, as authenticated by the admin middleware
+export function userOf(req: Request): string | undefined {
+  return (req as TokenAuthedRequest).auth?.user;
+}
+
+// API token the request was authenticated with, when it did not use Basic Auth
+export function tokenOf(req: Request): ApiToken | undefined {
+  return (req as TokenAuthedRequest).apiToken;
+}
+
+// A token is limited to its scopes and applications, and to the roles its creator had when creating it.
+// Those are stored with the token, so they hold across restarts and instances; roles this process knows
+// of the creator now (configured, or from a later OIDC sign-in) can only narrow them.
+export function tokenAllows(access: AdminAccess, token: ApiToken, applicationId: string, scope: ApiTokenScope): boolean {
+  const covered = token.applications.includes("*") || token.applications.includes(applicationId);
+  const role = SCOPE_ROLE[scope];
+  const createdWith = token.creatorRoles === undefined || atLeast(roleIn(token.creatorRoles, applicationId), role);
+  // Tokens created before roles were stored depend on the current roles alone
+  const current = access.knows(token.createdBy) ? access.can(token.createdBy, applicationId, role) : token.creatorRoles !== undefined;
+  return covered && token.scopes.includes(scope) && createdWith && current;
+}
+
+export function forbidden(res: Response, username: string | undefined, role: AdminRole, applicationId: string) {
+  res.status(403).json({
+    error: `User '${username ?? "anonymous"}' needs the ${role} role on application '${applicationId}'`,
+    tag: "ForbiddenError",
+  });
+}
+
+export function forbiddenToken(res: Response, token: ApiToken, scope: ApiTokenScope | undefined, applicationId?: string) {
+  res.status(403).json({
+    error: scope
+      ? `API token '${token.name}' needs the ${scope} scope on application '${applicationId}'`
+      : `API token '${token.name}' cannot be used for this operation`,
+    tag: "ForbiddenError",
+  });
+}
+
+// Requires a role on the application of the :applicationId route parameter, or on the given one
+// ("*" for routes covering every application). API tokens are only accepted when the route names the
+// scope that stands for the role.
+export function requireRole(access: AdminAccess, role: AdminRole, scope?: ApiTokenScope, fixedApplicationId?: string): RequestHandler {
+  return (req, res, next) => {
+    const username = userOf(req);
+    const applicationId = fixedApplicationId ?? req.params.applicationId;
+    const token = tokenOf(req);
+    if (token) {
+      if (scope && tokenAllows(access, token, applicationId, scope)) {
+        next();
+        return;
+      }
+      forbiddenToken(res, token, scope, applicationId);
+      return;
+    }
+    if (username !== undefined && access.can(username, applicationId, role)) {
+      next();
+      return;
+    }
+    forbidden(res, username, role, applicationId);
+  };
+}
+
+// Rejects API tokens, for operations that only signed-in users may perform
+export const requireUser: RequestHandler = (req, res, next) => {
+  const token = tokenOf(req);
+  if (token) {
+    forbiddenToken(res, token, undefined);
+    return;
+  }
+  next();
+};
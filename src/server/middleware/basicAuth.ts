@@ -4,9 +4,10 @@ import type { ConfigManagerOptions } from "../../core/types.js";
 export function createBasicAuth(config: ConfigManagerOptions) {
   return basicAuth({
     users: {
+      ...Object.fromEntries((config.admin.users ?? []).map((user) => [user.username, user.password])),
       [config.admin.username]: config.admin.password
     },
-    challenge: true,
+    challenge: !config.admin.oidc, // No browser prompt when users sign in through OIDC
     realm: "ConfigManager Admin"
   });
 }
\ No newline at end of file
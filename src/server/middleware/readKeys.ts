@@ -0,0 +1,50 @@
+// Read-key checks of the public config routes
+import type { Request, Response } from "express";
+import { Effect } from "effect";
+import type { ConfigStorageService } from "../../core/services/ConfigStorageService.js";
+import type { ResolutionCacheService } from "../../core/services/ResolutionCacheService.js";
+import type { ConfigManagerOptions, MongoDbError } from "../../core/types.js";
+import { READ_KEY_HEADER, READ_KEY_QUERY_PARAM, matchesReadKey, readKeyRequired, type ReadAccess } from "../../core/auth/readKeys.js";
+
+// Read access of an application, from the resolution cache when there is one
+export function readAccessLookup(service: ConfigStorageService, cache?: ResolutionCacheService) {
+  return (applicationId: string): Effect.Effect<ReadAccess | null, MongoDbError> =>
+    cache
+      ? cache.readAccess(applicationId)
+      : service.getApplication(applicationId).pipe(Effect.map((app) => (app ? { public: app.public, readKeys: app.readKeys } : null)));
+}
+
+function presentedReadKey(req: Request): string | undefined {
+  const header = req.get(READ_KEY_HEADER);
+  const query = req.query[READ_KEY_QUERY_PARAM];
+  return header || (typeof query === "string" && query ? query : undefined);
+}
+
+// Whether the request may read the application, without answering it
+export function readKeyAllows(req: Request, access: ReadAccess | null, options: ConfigManagerOptions["readKeys"]): boolean {
+  if (!readKeyRequired(access, options?.required ?? false)) {
+    return true;
+  }
+  const secret = presentedReadKey(req);
+  return secret !== undefined && access !== null && matchesReadKey(access, secret);
+}
+
+// Answers 401 and returns false unless the request may read the application
+export function checkReadKey(req: Request, res: Response, access: ReadAccess | null, options: ConfigManagerOptions["readKeys"]): boolean {
+  if (readKeyAllows(req, access, options)) {
+    return true;
+  }
+  const secret = presentedReadKey(req);
+  if (secret === undefined) {
+    res.status(401).json({ error: `A read key is required, in the ${READ_KEY_HEADER} header or the ?${READ_KEY_QUERY_PARAM}= parameter`, tag: "ReadKeyRequiredError" });
+    return false;
+  }
+  res.status(401).json({ error: "Invalid or expired read key", tag: "InvalidReadKeyError" });
+  return false;
+}
+
+// Responses for a key must not be shared by caches between clients
+export function markPrivate(res: Response, cacheControl: string): void {
+  res.set("Cache-Control", `private, ${cacheControl}`);
+  res.vary(READ_KEY_HEADER);
+}
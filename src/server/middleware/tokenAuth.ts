@@ -0,0 +1,115 @@
+// Admin authentication: Basic Auth, API bearer tokens and, when configured, JWTs of an OpenID Connect provider
+import type { Request, RequestHandler, Response } from "express";
+import { Effect } from "effect";
+import type { ApiToken, ConfigManagerOptions } from "../../core/types.js";
+import type { ApiTokenService } from "../../core/services/ApiTokenService.js";
+import { createJwtVerifier } from "../../core/auth/jwtVerifier.js";
+import { createBasicAuth } from "./basicAuth.js";
+import { rolesFromClaims, usernameFromClaims, type AdminAccess } from "./authorization.js";
+
+export interface TokenAuthedRequest extends Request {
+  auth?: { user: string; password: string };
+  apiToken?: ApiToken;
+}
+
+export interface AdminAuthOptions {
+  tokens?: ApiTokenService; // Accept API bearer tokens
+  redirectToLogin?: boolean; // Send browsers without credentials to the OIDC loginUrl, for the admin UI
+}
+
+// Name a token acts under in attributions; Basic Auth usernames cannot contain ":", so it never matches a user
+export const tokenUsername = (token: ApiToken) => `token:${token.name}`;
+
+const API_TOKEN_PREFIX = "cfg_";
+
+function cookieValue(req: Request, name: string): string | undefined {
+  for (const cookie of (req.get("Cookie") ?? "").split(";")) {
+    const separator = cookie.indexOf("=");
+    if (separator > 0 && cookie.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(cookie.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function unauthorized(res: Response, error: string, tag: string, bearerError?: string) {
+  const challenge = bearerError ? `, error="${bearerError}"` : "";
+  res.set("WWW-Authenticate", `Bearer realm="ConfigManager Admin"${challenge}`);
+  res.status(401).json({ error, tag });
+}
+
+export function createAdminAuth(config: ConfigManagerOptions, access: AdminAccess, options: AdminAuthOptions = {}): RequestHandler {
+  const { tokens, redirectToLogin = false } = options;
+  const oidc = config.admin.oidc;
+  const basicAuth = !oidc || oidc.allowBasicAuth ? createBasicAuth(config) : undefined;
+  if (!tokens && !oidc) {
+    return basicAuth!;
+  }
+  const verifier = oidc ? createJwtVerifier(oidc) : undefined;
+
+  const authenticateToken = (secret: string): RequestHandler => (req, res, next) => {
+    Effect.runPromise(tokens!.authenticate(secret)).then((token) => {
+      if (!token) {
+        unauthorized(res, "Invalid, expired or revoked API token", "InvalidTokenError", "invalid_token");
+        return;
+      }
+      const authed = req as TokenAuthedRequest;
+      authed.auth = { user: tokenUsername(token), password: "" };
+      authed.apiToken = token;
+      next();
+    }, next);
+  };
+
+  const authenticateJwt = (jwt: string): RequestHandler => (req, res, next) => {
+    Effect.runPromise(Effect.either(verifier!.verify(jwt))).then((verified) => {
+      if (verified._tag === "Left") {
+        config.logger.warn("Rejected admin JWT", { reason: verified.left.message });
+        unauthorized(res, verified.left.message, "InvalidTokenError", "invalid_token");
+        return;
+      }
+      const claims = verified.right;
+      const username = usernameFromClaims(claims, oidc!);
+      if (!username) {
+        unauthorized(res, "The JWT does not name a user", "InvalidTokenError", "invalid_token");
+        return;
+      }
+      if (!access.grant(username, rolesFromClaims(claims, oidc!))) {
+        unauthorized(res, `User '${username}' is configured for Basic Auth and cannot sign in through OIDC`, "InvalidTokenError", "invalid_token");
+        return;
+      }
+      (req as TokenAuthedRequest).auth = { user: username, password: "" };
+      next();
+    }, next);
+  };
+
+  return (req, res, next) => {
+    const authorization = req.get("Authorization");
+    const bearer = authorization ? /^Bearer\s+(\S+)$/i.exec(authorization)?.[1] : undefined;
+    // Without OIDC every bearer token is an API token; with it, API tokens are told apart by their prefix
+    if (bearer !== undefined && tokens && (!oidc || bearer.startsWith(API_TOKEN_PREFIX))) {
+      authenticateToken(bearer)(req, res, next);
+      return;
+    }
+    const jwt = oidc ? bearer ?? (oidc.cookieName ? cookieValue(req, oidc.cookieName) : undefined) : undefined;
+    if (jwt !== undefined) {
+      authenticateJwt(jwt)(req, res, next);
+      return;
+    }
+    if (basicAuth && (!oidc || /^Basic\s/i.test(authorization ?? ""))) {
+      basicAuth(req, res, next);
+      return;
+    }
+    if (redirectToLogin && oidc?.loginUrl && req.method === "GET") {
+      const returnTo = `${req.protocol}://${req.get("Host")}${req.originalUrl}`;
+      const loginUrl = new URL(oidc.loginUrl, returnTo);
+      loginUrl.searchParams.set("returnTo", returnTo);
+      res.redirect(loginUrl.toString());
+      return;
+    }
+    unauthorized(res, "Authentication required", "UnauthorizedError");
+  };
+}
@@ -1,12 +1,60 @@
 // 25 Lines by Claude Opus
 // Admin API routes for config management
-import { Router } from "express";
+import { Router, type Request } from "express";
 import { Effect, Exit } from "effect";
 import type { ConfigStorageService } from "../../core/services/ConfigStorageService.js";
-import type { AppConfig, ConfigServiceError, Logger } from "../../core/types.js";
+import type { ResolutionCacheService } from "../../core/services/ResolutionCacheService.js";
+import type { ApiTokenService } from "../../core/services/ApiTokenService.js";
+import { ApplicationNotFoundError, ReadKeyNotFoundError, type ApiTokenScope, type AppConfig, type ConfigServiceError, type Logger } from "../../core/types.js";
+import { configTypeName, schemaToTypeScript } from "../../core/codegen/schemaToTypeScript.js";
+import { DEFAULT_ROTATION_OVERLAP_SECONDS, addReadKey, generateReadKey, removeReadKey, rotateReadKey } from "../../core/auth/readKeys.js";
+import {
+  SCOPE_ROLE,
+  forbidden,
+  requireRole,
+  requireUser,
+  tokenAllows,
+  tokenOf,
+  userOf,
+  type AdminAccess,
+} from "../middleware/authorization.js";
+import * as semver from "semver";
+
+// Application revision the client expects to overwrite, from an If-Match header such as `"3"` or `W/"3"`.
+// A missing header or `*` skips the check; an unparseable tag never matches and fails with 412.
+function expectedRevisionOf(req: Request): number | undefined {
+  const ifMatch = req.get("If-Match")?.trim();
+  if (!ifMatch || ifMatch === "*") {
+    return undefined;
+  }
+  const match = /^(?:W\/)?"(\d+)"$/.exec(ifMatch);
+  return match ? Number(match[1]) : NaN;
+}
 
-export function createAdminRoutes(service: ConfigStorageService, logger: Logger): Router {
+// Whether an update touches what only owners may change. The admin UI sends the whole application
+// on every save, so unchanged values are not changes.
+function ownerChanges(app: AppConfig, update: Partial<AppConfig>): boolean {
+  const changed = (field: "schema" | "readKeys") => update[field] !== undefined && JSON.stringify(update[field]) !== JSON.stringify(app[field]);
+  const archivedChanged = update.archived !== undefined && update.archived !== app.archived;
+  const publicChanged = update.public !== undefined && update.public !== (app.public ?? false);
+  return changed("schema") || changed("readKeys") || archivedChanged || publicChanged;
+}
+
+export function createAdminRoutes(
+  service: ConfigStorageService,
+  logger: Logger,
+  access: AdminAccess,
+  cache?: ResolutionCacheService,
+  tokens?: ApiTokenService
+): Router {
   const router = Router();
+  // API tokens reach the routes whose role has a scope: reading, writing named configs and archiving
+  const viewer = requireRole(access, "viewer", "read");
+  const editor = requireRole(access, "editor");
+  const namedConfigEditor = requireRole(access, "editor", "write");
+  const owner = requireRole(access, "owner");
+  const archiver = requireRole(access, "owner", "archive");
+  const allApplicationsViewer = requireRole(access, "viewer", "read", "*");
 
   // 35 Lines by Claude Sonnet
   // Helper to handle Effect results with tagged error support
@@ -76,9 +124,35 @@ export function createAdminRoutes(service: ConfigStorageService, logger: Logger)
                 tag: errorTag 
               });
 
+            case "ApiTokenNotFoundError":
+              return res.status(404).json({ 
+                error: `API token '${actualError.tokenId}' not found`, 
+                tag: errorTag 
+              });
+
+            case "ReadKeyNotFoundError":
+              return res.status(404).json({ 
+                error: `Read key '${actualError.keyId}' not found in application '${actualError.applicationId}'`, 
+                tag: errorTag 
+              });
+
+            case "RevisionNotFoundError":
+              return res.status(404).json({ 
+                error: `Revision ${actualError.revision} not found for application '${actualError.applicationId}'`, 
+                tag: errorTag 
+              });
+
+            case "StaleRevisionError":
+              return res.status(412).json({ 
+                error: `Application '${actualError.applicationId}' was modified (revision ${actualError.currentRevision}, expected ${actualError.expectedRevision})`, 
+                currentRevision: actualError.currentRevision,
+                tag: errorTag 
+              });
+
             case "VersionConflictError":
+              const overlapping = actualError.existingVersion ? ` (overlaps '${actualError.existingVersion}')` : "";
               return res.status(409).json({ 
-                error: `Version '${actualError.version}' already used by config '${actualError.existingConfigName}' (attempted to use in '${actualError.newConfigName}')`, 
+                error: `Version '${actualError.version}' already used by config '${actualError.existingConfigName}'${overlapping} (attempted to use in '${actualError.newConfigName}')`, 
                 tag: errorTag 
               });
 
@@ -140,75 +214,273 @@ export function createAdminRoutes(service: ConfigStorageService, logger: Logger)
       return;
     }
 
+    // Strings are documents with their own content type, such as generated declarations
+    if (typeof exit.value === "string") {
+      res.status(successStatus).send(exit.value);
+      return;
+    }
     res.status(successStatus).json(exit.value);
   }
 
-  // List all applications
-  router.get("/applications", async (_req, res) => {
-    await handleEffect(service.listApplications(), res);
+  // Current user and their roles, so the admin UI can hide what they may not do
+  router.get("/me", (req, res) => {
+    const username = userOf(req)!;
+    const token = tokenOf(req);
+    res.json({ username, roles: access.rolesOf(username), ...(token ? { token } : {}) });
   });
 
-  // Get single application
-  router.get("/applications/:applicationId", async (req, res) => {
-    const effect = service.getApplication(req.params.applicationId);
-    const exit = await Effect.runPromiseExit(effect);
-
-    if (Exit.isSuccess(exit)) {
-      if (!exit.value) {
-        res.status(404).json({ error: "Application not found" });
-        return;
-      }
-      res.json(exit.value);
-      return;
-    }
+  // List the applications the user has a role on, or the token may read
+  router.get("/applications", async (req, res) => {
+    const username = userOf(req)!;
+    const token = tokenOf(req);
+    const visible = service.listApplications().pipe(
+      Effect.map((apps) =>
+        apps.filter((app) =>
+          token ? tokenAllows(access, token, app.applicationId, "read") : access.roleOf(username, app.applicationId) !== undefined
+        )
+      )
+    );
+    await handleEffect(visible, res);
+  });
 
-    logger.error("Failed to get application", exit.cause);
-    res.status(500).json({ error: "Internal server error" });
+  // Get single application
+  router.get("/applications/:applicationId", viewer, async (req, res) => {
+    const { applicationId } = req.params;
+    const effect = service.getApplication(applicationId).pipe(
+      Effect.flatMap((app) => (app ? Effect.succeed(app) : Effect.fail(new ApplicationNotFoundError({ applicationId })))),
+      Effect.tap((app) => Effect.sync(() => res.set("ETag", `"${app.revision ?? 0}"`)))
+    );
+    await handleEffect(effect, res);
   });
 
   // Create application
-  router.post("/applications", async (req, res) => {
+  router.post("/applications", requireUser, async (req, res) => {
     const config: AppConfig = req.body;
-    await handleEffect(service.createApplication(config), res, 201);
+    const username = userOf(req);
+    const applicationId = String(config?.applicationId ?? "");
+    if (username === undefined || !access.can(username, applicationId, "owner")) {
+      forbidden(res, username, "owner", applicationId);
+      return;
+    }
+    await handleEffect(service.createApplication(config, userOf(req)), res, 201);
   });
 
-  // Update application
-  router.put("/applications/:applicationId", async (req, res) => {
+  // Update application; editors may change everything but the schema, the archived and public flags and the read keys
+  router.put("/applications/:applicationId", editor, async (req, res) => {
     const { applicationId } = req.params;
     const update = req.body;
     logger.info(`PUT /applications/${applicationId}`, { body: update });
-    await handleEffect(service.updateApplication(applicationId, update), res);
+    if (update?.applicationId !== undefined && update.applicationId !== applicationId) {
+      res.status(400).json({ error: "The applicationId of the body does not match the URL" });
+      return;
+    }
+    const username = userOf(req)!;
+    if (!access.can(username, applicationId, "owner")) {
+      const app = await Effect.runPromise(Effect.either(service.getApplication(applicationId)));
+      if (app._tag === "Right" && app.right && ownerChanges(app.right, update)) {
+        forbidden(res, username, "owner", applicationId);
+        return;
+      }
+    }
+    await handleEffect(service.updateApplication(applicationId, update, username, expectedRevisionOf(req)), res);
   });
 
   // Archive application
-  router.post("/applications/:applicationId/archive", async (req, res) => {
-    await handleEffect(service.archiveApplication(req.params.applicationId), res, 204);
+  router.post("/applications/:applicationId/archive", archiver, async (req, res) => {
+    await handleEffect(service.archiveApplication(req.params.applicationId, userOf(req)), res, 204);
   });
 
   // Unarchive application
-  router.post("/applications/:applicationId/unarchive", async (req, res) => {
-    await handleEffect(service.unarchiveApplication(req.params.applicationId), res, 204);
+  router.post("/applications/:applicationId/unarchive", archiver, async (req, res) => {
+    await handleEffect(service.unarchiveApplication(req.params.applicationId, userOf(req)), res, 204);
   });
 
   // Create named config
-  router.post("/applications/:applicationId/configs", async (req, res) => {
+  router.post("/applications/:applicationId/configs", namedConfigEditor, async (req, res) => {
     const { applicationId } = req.params;
     const { name, data, versions = [] } = req.body;
-    await handleEffect(service.createNamedConfig(applicationId, name, data, versions), res, 201);
+    await handleEffect(service.createNamedConfig(applicationId, name, data, versions, userOf(req)), res, 201);
   });
 
   // Update named config
-  router.put("/applications/:applicationId/configs/:name", async (req, res) => {
+  router.put("/applications/:applicationId/configs/:name", namedConfigEditor, async (req, res) => {
     const { applicationId, name } = req.params;
     const { data, versions = [] } = req.body;
     logger.info(`PUT /applications/${applicationId}/configs/${name}`, { body: req.body });
-    await handleEffect(service.updateNamedConfig(applicationId, name, data, versions), res);
+    await handleEffect(service.updateNamedConfig(applicationId, name, data, versions, userOf(req), expectedRevisionOf(req)), res);
   });
 
   // Delete named config
-  router.delete("/applications/:applicationId/configs/:name", async (req, res) => {
+  router.delete("/applications/:applicationId/configs/:name", namedConfigEditor, async (req, res) => {
     const { applicationId, name } = req.params;
-    await handleEffect(service.deleteNamedConfig(applicationId, name), res, 204);
+    await handleEffect(service.deleteNamedConfig(applicationId, name, userOf(req)), res, 204);
+  });
+
+  // Changes the read keys of an application through a conditional update, so they are recorded in its revisions
+  const updateReadKeys = <A>(
+    applicationId: string,
+    author: string,
+    change: (app: AppConfig) => Effect.Effect<{ readKeys: AppConfig["readKeys"]; result: A }, ReadKeyNotFoundError>
+  ) =>
+    service.getApplication(applicationId).pipe(
+      Effect.flatMap((app) => (app ? Effect.succeed(app) : Effect.fail(new ApplicationNotFoundError({ applicationId })))),
+      Effect.flatMap((app) =>
+        change(app).pipe(
+          Effect.flatMap(({ readKeys, result }) =>
+            service.updateApplication(applicationId, { readKeys }, author, app.revision).pipe(Effect.as(result))
+          )
+        )
+      )
+    );
+
+  // Create a read key for the public config API; its secret is only returned in this response
+  router.post("/applications/:applicationId/read-keys", owner, async (req, res) => {
+    const { applicationId } = req.params;
+    const name = typeof req.body?.name === "string" ? req.body.name.trim() : undefined;
+    const effect = updateReadKeys(applicationId, userOf(req)!, (app) => {
+      const created = generateReadKey(name);
+      return Effect.succeed({ readKeys: addReadKey(app, created.key), result: created });
+    });
+    await handleEffect(effect, res, 201);
+  });
+
+  // Replace a read key by a new one, the old key being accepted for overlapSeconds more
+  router.post("/applications/:applicationId/read-keys/:keyId/rotate", owner, async (req, res) => {
+    const { applicationId, keyId } = req.params;
+    const overlapSeconds = req.body?.overlapSeconds ?? DEFAULT_ROTATION_OVERLAP_SECONDS;
+    if (typeof overlapSeconds !== "number" || !Number.isFinite(overlapSeconds) || overlapSeconds < 0) {
+      res.status(400).json({ error: "overlapSeconds must be a non-negative number" });
+      return;
+    }
+    const effect = updateReadKeys(applicationId, userOf(req)!, (app) => {
+      const rotated = rotateReadKey(app, keyId, overlapSeconds);
+      return rotated
+        ? Effect.succeed({ readKeys: rotated.readKeys, result: { key: rotated.key, secret: rotated.secret } })
+        : Effect.fail(new ReadKeyNotFoundError({ applicationId, keyId }));
+    });
+    await handleEffect(effect, res, 201);
+  });
+
+  // Revoke a read key at once
+  router.delete("/applications/:applicationId/read-keys/:keyId", owner, async (req, res) => {
+    const { applicationId, keyId } = req.params;
+    const effect = updateReadKeys(applicationId, userOf(req)!, (app) => {
+      const readKeys = removeReadKey(app, keyId);
+      return readKeys ? Effect.succeed({ readKeys, result: undefined }) : Effect.fail(new ReadKeyNotFoundError({ applicationId, keyId }));
+    });
+    await handleEffect(effect, res, 204);
+  });
+
+  // TypeScript declarations for the application's config, generated from its schema
+  router.get("/applications/:applicationId/types.d.ts", viewer, async (req, res) => {
+    const { applicationId } = req.params;
+    const typeName = req.query.typeName;
+    if (typeName !== undefined && (typeof typeName !== "string" || !/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(typeName))) {
+      res.status(400).json({ error: "Invalid type name" });
+      return;
+    }
+    const effect = service.getApplication(applicationId).pipe(
+      Effect.flatMap((app) => (app ? Effect.succeed(app) : Effect.fail(new ApplicationNotFoundError({ applicationId })))),
+      Effect.map((app) =>
+        schemaToTypeScript(app.schema, {
+          typeName: typeName ?? configTypeName(applicationId),
+          header: `Generated from the schema of '${applicationId}' at revision ${app.revision ?? 0}. Do not edit.`,
+        })
+      ),
+      Effect.tap(() => Effect.sync(() => res.type("application/typescript")))
+    );
+    await handleEffect(effect, res);
+  });
+
+  // Explain which config a version resolves to
+  router.get("/applications/:applicationId/resolve", viewer, async (req, res) => {
+    const version = req.query.version;
+    if (typeof version !== "string" || !semver.valid(version)) {
+      res.status(400).json({ error: "Invalid semver version" });
+      return;
+    }
+    await handleEffect(service.explainConfig({ applicationId: req.params.applicationId, version }), res);
+  });
+
+  // List revisions of an application
+  router.get("/applications/:applicationId/revisions", viewer, async (req, res) => {
+    await handleEffect(service.listRevisions(req.params.applicationId), res);
+  });
+
+  // Get a single revision
+  router.get("/applications/:applicationId/revisions/:revision", viewer, async (req, res) => {
+    const revision = Number(req.params.revision);
+    if (!Number.isInteger(revision) || revision < 1) {
+      res.status(400).json({ error: "Invalid revision number" });
+      return;
+    }
+    await handleEffect(service.getRevision(req.params.applicationId, revision), res);
+  });
+
+  // Roll an application back to a previous revision, schema included
+  router.post("/applications/:applicationId/revisions/:revision/rollback", owner, async (req, res) => {
+    const { applicationId } = req.params;
+    const revision = Number(req.params.revision);
+    if (!Number.isInteger(revision) || revision < 1) {
+      res.status(400).json({ error: "Invalid revision number" });
+      return;
+    }
+    await handleEffect(service.rollbackApplication(applicationId, revision, userOf(req)), res);
+  });
+
+  if (tokens) {
+    // Owners of every application manage all tokens, other users the tokens they created
+    const managesAllTokens = (username: string) => access.rolesOf(username)["*"] === "owner";
+
+    // List API tokens, without their secrets
+    router.get("/tokens", requireUser, async (req, res) => {
+      const username = userOf(req)!;
+      const visible = tokens
+        .list()
+        .pipe(Effect.map((all) => all.filter((token) => managesAllTokens(username) || token.createdBy === username)));
+      await handleEffect(visible, res);
+    });
+
+    // Create an API token; its secret is only returned in this response
+    router.post("/tokens", requireUser, async (req, res) => {
+      const username = userOf(req)!;
+      const { name, applications, scopes, expiresAt } = req.body ?? {};
+      // Users can only grant what they may do themselves
+      if (Array.isArray(applications) && Array.isArray(scopes)) {
+        for (const applicationId of applications.map(String)) {
+          const missing = (scopes as ApiTokenScope[]).find(
+            (scope) => SCOPE_ROLE[scope] && !access.can(username, applicationId, SCOPE_ROLE[scope])
+          );
+          if (missing) {
+            forbidden(res, username, SCOPE_ROLE[missing], applicationId);
+            return;
+          }
+        }
+      }
+      const request = { name, applications, scopes, ...(expiresAt ? { expiresAt: new Date(expiresAt) } : {}) };
+      await handleEffect(tokens.create(request, username, access.rolesOf(username)), res, 201);
+    });
+
+    // Revoke an API token; it is kept, marked revoked, so the list shows what existed
+    router.delete("/tokens/:tokenId", requireUser, async (req, res) => {
+      const username = userOf(req)!;
+      const { tokenId } = req.params;
+      const token = await Effect.runPromise(Effect.either(tokens.get(tokenId)));
+      if (token._tag === "Right" && token.right && !managesAllTokens(username) && token.right.createdBy !== username) {
+        res.status(403).json({ error: `User '${username}' cannot revoke API token '${tokenId}'`, tag: "ForbiddenError" });
+        return;
+      }
+      await handleEffect(tokens.revoke(tokenId).pipe(Effect.asVoid), res, 204);
+    });
+  }
+
+  // Hit/miss counters of the resolution cache, for monitoring; they cover every application
+  router.get("/cache", allApplicationsViewer, async (_req, res) => {
+    if (!cache) {
+      res.json({ enabled: false });
+      return;
+    }
+    res.json(await Effect.runPromise(cache.stats()));
   });
 
   return router;
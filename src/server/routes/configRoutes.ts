@@ -3,11 +3,55 @@
 import { Router } from "express";
 import { Effect, Exit } from "effect";
 import type { ConfigStorageService } from "../../core/services/ConfigStorageService.js";
-import type { Logger } from "../../core/types.js";
+import type { ResolutionCacheService } from "../../core/services/ResolutionCacheService.js";
+import type { CacheControl, ConfigManagerOptions, ConfigResponse, Logger, MongoDbError } from "../../core/types.js";
+import { lookupNamedConfig, type NamedConfigLookup } from "../../core/resolution/versionResolver.js";
+import { readKeyRequired, type ReadAccess } from "../../core/auth/readKeys.js";
+import { checkReadKey, markPrivate, readAccessLookup } from "../middleware/readKeys.js";
 import * as semver from "semver";
+import { createHash } from "crypto";
 
-export function createConfigRoutes(service: ConfigStorageService, logger: Logger): Router {
+// Strong ETag for a resolved config: the application revision plus a hash of the served content
+function configETag(result: ConfigResponse): string {
+  const hash = createHash("sha256").update(JSON.stringify(result.data)).digest("base64url").slice(0, 27);
+  return `"${result.revision ?? 0}-${hash}"`;
+}
+
+// A resolved config, or why nothing is served (sent as a 404 body), or a read key was refused (already answered)
+type Resolved = { result: ConfigResponse; keyed?: boolean } | { notFound: { error: string; tag: string } } | { denied: true };
+
+const DENIED = { denied: true } as const;
+
+const APPLICATION_NOT_FOUND = { error: "Application not found or archived", tag: "ApplicationNotFoundError" };
+
+function resolvedByName(lookup: NamedConfigLookup, name: string, version: string): Resolved {
+  if ("result" in lookup) {
+    return lookup;
+  }
+  switch (lookup.missing) {
+    case "application":
+      return { notFound: APPLICATION_NOT_FOUND };
+    case "namedConfig":
+      return { notFound: { error: `Named config '${name}' not found`, tag: "NamedConfigNotFoundError" } };
+    case "version":
+      return { notFound: { error: `Version ${version} is not allowed for named config '${name}'`, tag: "VersionNotAllowedError" } };
+  }
+}
+
+export function createConfigRoutes(
+  service: ConfigStorageService,
+  logger: Logger,
+  cacheControl?: CacheControl,
+  readKeys?: ConfigManagerOptions["readKeys"],
+  cache?: ResolutionCacheService
+): Router {
   const router = Router();
+  const readAccessOf = readAccessLookup(service, cache);
+  // Named configs are served through the resolution cache when there is one
+  const namedConfigOf = (applicationId: string, name: string, version: string): Effect.Effect<NamedConfigLookup, MongoDbError> =>
+    cache
+      ? cache.namedConfig({ applicationId, version }, name)
+      : service.getApplication(applicationId).pipe(Effect.map((app) => lookupNamedConfig(app, name, version, cacheControl)));
 
   // GET /
   router.get("/", async (req, res) => {
@@ -24,7 +68,25 @@ export function createConfigRoutes(service: ConfigStorageService, logger: Logger
       return;
     }
 
-    const effect = service.getConfig({ applicationId, version });
+    // ?name= serves that named config, provided it allows the version, instead of resolving by precedence.
+    // Either way the read key is checked before anything is resolved.
+    const name = typeof req.query.name === "string" && req.query.name ? req.query.name : undefined;
+    const guarded = (app: ReadAccess | null, resolve: Effect.Effect<Resolved, MongoDbError>) =>
+      Effect.suspend(() =>
+        checkReadKey(req, res, app, readKeys)
+          ? resolve.pipe(Effect.map((resolved) => ("result" in resolved ? { ...resolved, keyed: readKeyRequired(app, readKeys?.required ?? false) } : resolved)))
+          : Effect.succeed(DENIED)
+      );
+    const effect: Effect.Effect<Resolved, MongoDbError> = readAccessOf(applicationId).pipe(
+      Effect.flatMap((access) =>
+        guarded(
+          access,
+          name
+            ? namedConfigOf(applicationId, name, version).pipe(Effect.map((lookup) => resolvedByName(lookup, name, version)))
+            : service.getConfig({ applicationId, version }).pipe(Effect.map((result) => (result ? { result } : { notFound: APPLICATION_NOT_FOUND })))
+        )
+      )
+    );
     const exit = await Effect.runPromiseExit(effect);
 
     if (Exit.isFailure(exit)) {
@@ -67,13 +129,30 @@ export function createConfigRoutes(service: ConfigStorageService, logger: Logger
       return;
     }
 
-    const result = exit.value;
-    if (!result) {
-      res.status(404).json({ error: "Application not found or archived" });
+    if ("denied" in exit.value) {
       return;
     }
+    if ("notFound" in exit.value) {
+      res.status(404).json(exit.value.notFound);
+      return;
+    }
+    const { result, keyed } = exit.value;
 
     res.set("Cache-Control", result.cacheControl);
+    if (keyed) {
+      markPrivate(res, result.cacheControl);
+    }
+    res.set("ETag", configETag(result));
+    if (result.lastUpdated) {
+      res.set("Last-Modified", new Date(result.lastUpdated).toUTCString());
+    }
+
+    // Evaluates If-None-Match (or If-Modified-Since when absent) against the headers set above
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
     res.json(result.data);
   });
 
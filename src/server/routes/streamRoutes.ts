@@ -0,0 +1,175 @@
+// Public Server-Sent Events route pushing config updates as admin changes alter a version's resolution
+import { Router, type Request, type Response } from "express";
+import { Effect, Exit, Fiber, Queue, Cause } from "effect";
+import type { ConfigStorageService } from "../../core/services/ConfigStorageService.js";
+import type { ConfigChangeService } from "../../core/services/ConfigChangeService.js";
+import type { ResolutionCacheService } from "../../core/services/ResolutionCacheService.js";
+import type { ConfigManagerOptions, ConfigResponse } from "../../core/types.js";
+import { checkReadKey, readAccessLookup, readKeyAllows } from "../middleware/readKeys.js";
+import * as semver from "semver";
+
+const DEFAULT_HEARTBEAT_SECONDS = 25;
+const DEFAULT_MAX_CONNECTIONS = 1000;
+const DEFAULT_MAX_CONNECTIONS_PER_CLIENT = 10;
+
+const UNAVAILABLE_TAGS = new Set(["MongoNetworkError", "MongoAuthError", "PoolExhaustedError", "UnexpectedServerError"]);
+
+// One SSE message; the id is the application revision, sent back by EventSource as Last-Event-ID on reconnect
+function writeEvent(res: Response, event: string, data: unknown, id?: number): void {
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+  res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function createStreamRoutes(
+  config: ConfigManagerOptions,
+  service: ConfigStorageService,
+  changes?: ConfigChangeService,
+  cache?: ResolutionCacheService
+): Router {
+  const router = Router();
+  const logger = config.logger;
+  const heartbeatMs = (config.stream?.heartbeatSeconds ?? DEFAULT_HEARTBEAT_SECONDS) * 1000;
+  const maxConnections = config.stream?.maxConnections ?? DEFAULT_MAX_CONNECTIONS;
+  const maxConnectionsPerClient = config.stream?.maxConnectionsPerClient ?? DEFAULT_MAX_CONNECTIONS_PER_CLIENT;
+  const readAccessOf = readAccessLookup(service, cache);
+
+  // Open streams by client address
+  const connections = new Map<string, number>();
+  let openConnections = 0;
+
+  // GET /config/:applicationId/:version/stream
+  router.get("/config/:applicationId/:version/stream", async (req: Request, res: Response) => {
+    const { applicationId, version } = req.params;
+
+    if (!semver.valid(version)) {
+      res.status(400).json({ error: "Invalid semver version" });
+      return;
+    }
+    if (!changes) {
+      res.status(501).json({ error: "Live config updates are not available" });
+      return;
+    }
+
+    // Keys are checked when the stream opens, and again on every change so that revoking a key ends its streams
+    const access = await Effect.runPromise(Effect.either(readAccessOf(applicationId)));
+    if (access._tag === "Left") {
+      logger.error(`Tagged error in config stream: ${access.left._tag}`, access.left);
+      res.status(503).json({ error: "Service temporarily unavailable", tag: access.left._tag });
+      return;
+    }
+    if (!checkReadKey(req, res, access.right, config.readKeys)) {
+      return;
+    }
+
+    const client = req.ip ?? "unknown";
+    if (openConnections >= maxConnections) {
+      res.status(503).json({ error: "Too many open config streams" });
+      return;
+    }
+    if ((connections.get(client) ?? 0) >= maxConnectionsPerClient) {
+      res.status(429).json({ error: "Too many open config streams for this client" });
+      return;
+    }
+    openConnections++;
+    connections.set(client, (connections.get(client) ?? 0) + 1);
+
+    const lastEventId = Number(req.get("Last-Event-ID"));
+    const request = { applicationId, version };
+
+    const stream = Effect.scoped(
+      Effect.gen(function* () {
+        // Subscribed before the first resolution so that no change in between is missed
+        const subscription = yield* changes.subscribe();
+        const initial = yield* service.getConfig(request).pipe(Effect.either);
+
+        if (initial._tag === "Left") {
+          const tag = initial.left._tag;
+          logger.error(`Tagged error in config stream: ${tag}`, initial.left);
+          res.status(UNAVAILABLE_TAGS.has(tag) ? 503 : 500).json({ error: "Service temporarily unavailable", tag });
+          return;
+        }
+        if (!initial.right) {
+          res.status(404).json({ error: "Application not found or archived" });
+          return;
+        }
+
+        // no-transform keeps the compression middleware from buffering events
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+          "X-Accel-Buffering": "no",
+        });
+
+        // A client resuming at the current revision already has this resolution
+        let current: ConfigResponse | null = initial.right;
+        if (current.revision !== lastEventId) {
+          writeEvent(res, "config", current.data, current.revision);
+        }
+
+        const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), heartbeatMs);
+        yield* Effect.addFinalizer(() => Effect.sync(() => clearInterval(heartbeat)));
+
+        // Re-resolve on changes to the application and send only when this version's resolution changed.
+        // Answers whether the stream goes on.
+        const refresh = Effect.gen(function* () {
+          // The cache may not have seen the change yet when it came from another instance
+          if (cache) {
+            yield* cache.invalidate(applicationId);
+          }
+          if (!readKeyAllows(req, yield* readAccessOf(applicationId), config.readKeys)) {
+            writeEvent(res, "unauthorized", { applicationId, version });
+            return false;
+          }
+          const next = yield* service.getConfig(request);
+          if (!next) {
+            if (current) {
+              writeEvent(res, "unavailable", { applicationId, version });
+            }
+          } else if (!current || JSON.stringify(next.data) !== JSON.stringify(current.data)) {
+            writeEvent(res, "config", next.data, next.revision);
+          }
+          current = next;
+          return true;
+        }).pipe(
+          // An outage is not the end of the stream, the next change is resolved again
+          Effect.catchAll((error) =>
+            Effect.sync(() => {
+              logger.warn("Failed to refresh config stream", { applicationId, tag: error._tag });
+              return true;
+            })
+          )
+        );
+
+        yield* Queue.take(subscription).pipe(
+          Effect.flatMap((event) => (event.applicationId === applicationId ? refresh : Effect.succeed(true))),
+          Effect.repeat({ while: (open) => open })
+        );
+      })
+    );
+
+    const fiber = Effect.runFork(stream);
+    // Fires when the client disconnects
+    res.on("close", () => {
+      Effect.runFork(Fiber.interrupt(fiber));
+    });
+
+    const exit = await Effect.runPromise(Fiber.await(fiber));
+    openConnections--;
+    const remaining = (connections.get(client) ?? 1) - 1;
+    if (remaining > 0) {
+      connections.set(client, remaining);
+    } else {
+      connections.delete(client);
+    }
+
+    if (Exit.isFailure(exit) && !Exit.isInterrupted(exit)) {
+      logger.error("Config stream failed", Cause.pretty(exit.cause));
+    }
+    if (!res.writableEnded) {
+      res.end();
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,140 @@
+// Test script for admin users with per-application roles - viewer, editor and owner checks on the admin API
+
+import { Effect, Layer, Context } from "effect";
+import type { AddressInfo } from "node:net";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { createExpressApp } from "../server/app.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: {
+    username: "admin",
+    password: "admin",
+    users: [
+      { username: "alice", password: "alice-pw", roles: { "app-a": "viewer" } },
+      { username: "bob", password: "bob-pw", roles: { "*": "editor", "app-b": "owner" } },
+      { username: "carol", password: "carol-pw", roles: { "app-a": "editor" } },
+    ],
+  },
+};
+
+const ConfigManagerOptionsLayer = Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function application(applicationId: string): AppConfig {
+  return {
+    applicationId,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { foo: "bar" } },
+    schema: { type: "object" },
+    lastUpdated: new Date(),
+  };
+}
+
+async function runTests(): Promise<void> {
+  const service = await Effect.runPromise(
+    Effect.provide(ConfigStorageService, Layer.provide(InMemoryConfigServiceLayer, ConfigManagerOptionsLayer))
+  );
+  await Effect.runPromise(Effect.all([service.createApplication(application("app-a")), service.createApplication(application("app-b"))]));
+
+  const server = createExpressApp(mockConfig, service).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const adminUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/admin`;
+
+  function as(username: string, password: string) {
+    const authorization = "Basic " + Buffer.from(`${username}:${password}`).toString("base64");
+    return (path: string, method = "GET", body?: unknown) =>
+      fetch(`${adminUrl}${path}`, {
+        method,
+        headers: { Authorization: authorization, "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+  }
+  const admin = as("admin", "admin");
+  const alice = as("alice", "alice-pw");
+  const bob = as("bob", "bob-pw");
+  const carol = as("carol", "carol-pw");
+
+  try {
+    log("Authenticating users...");
+    assert((await as("alice", "wrong")("/me")).status === 401, "A wrong password should be rejected");
+    const me: any = await (await bob("/me")).json();
+    assert(me.username === "bob" && me.roles["app-b"] === "owner", `Unexpected /me answer ${JSON.stringify(me)}`);
+    const adminMe: any = await (await admin("/me")).json();
+    assert(adminMe.roles["*"] === "owner", "The configured admin should own every application");
+    log("Authentication verified");
+
+    log("Checking viewer access...");
+    const visible: any[] = await (await alice("/applications")).json();
+    assert(visible.map((app) => app.applicationId).join(",") === "app-a", `Viewers should only list their applications, got ${visible.map((app) => app.applicationId)}`);
+    assert((await alice("/applications/app-a")).status === 200, "Viewers should read their applications");
+    assert((await alice("/applications/app-a/revisions")).status === 200, "Viewers should read revisions");
+    assert((await alice("/applications/app-b")).status === 403, "Users without a role should be denied");
+    assert((await alice("/cache")).status === 403, "Cache counters should need a role on every application");
+    assert((await bob("/cache")).status === 200, "Users with a role on every application should read the cache counters");
+    const denied = await alice("/applications/app-a/configs", "POST", { name: "prod", data: { foo: "prod" }, versions: ["1.0.0"] });
+    const deniedBody: any = await denied.json();
+    assert(denied.status === 403 && deniedBody.tag === "ForbiddenError", `Viewers should not write, got ${denied.status}`);
+    log("Viewer access verified");
+
+    log("Checking editor access...");
+    const created = await bob("/applications/app-a/configs", "POST", { name: "prod", data: { foo: "prod" }, versions: ["1.0.0"] });
+    assert(created.status === 201, `Editors should create named configs, got ${created.status}`);
+    const current: any = await (await bob("/applications/app-a")).json();
+    const saved = await bob("/applications/app-a", "PUT", { ...current, defaultConfig: { data: { foo: "edited" } } });
+    assert(saved.status === 200, `Editors should save the whole application when the schema is unchanged, got ${saved.status}`);
+    const schemaChange = await bob("/applications/app-a", "PUT", { schema: { type: "object", required: ["foo"] } });
+    assert(schemaChange.status === 403, `Editors should not change the schema, got ${schemaChange.status}`);
+    assert((await bob("/applications/app-a/archive", "POST")).status === 403, "Editors should not archive");
+    assert((await bob("/applications/app-a/revisions/1/rollback", "POST")).status === 403, "Editors should not roll back");
+    const revisions: any[] = await (await bob("/applications/app-a/revisions")).json();
+    assert(revisions[0].author === "bob", `Writes should be attributed to the user, got ${revisions[0].author}`);
+    log("Editor access verified");
+
+    log("Checking that writes stay on the route's application...");
+    const redirected = await carol("/applications/app-a", "PUT", { applicationId: "app-b", defaultConfig: { data: { foo: "pwned" } } });
+    assert(redirected.status === 400, `A body naming another application should answer 400, got ${redirected.status}`);
+    const renamed = await Effect.runPromise(
+      service.updateApplication("app-a", { applicationId: "app-b", revision: 99, defaultConfig: { data: { foo: "moved" } } }, "carol")
+    );
+    const untouched = await Effect.runPromise(service.getApplication("app-b"));
+    assert(renamed.applicationId === "app-a" && renamed.revision !== 99, "Storage should key updates by the given id");
+    assert(untouched?.defaultConfig.data.foo === "bar" && untouched.revision === 1, "Other applications should not be written");
+    log("Write targets verified");
+
+    log("Checking owner access...");
+    assert((await bob("/applications/app-b", "PUT", { schema: { type: "object", required: ["foo"] } })).status === 200, "Owners should change the schema");
+    assert((await bob("/applications/app-b/archive", "POST")).status === 204, "Owners should archive");
+    assert((await bob("/applications", "POST", application("app-c"))).status === 403, "Creating an application takes the owner role on its id");
+    assert((await admin("/applications", "POST", application("app-c"))).status === 201, "The admin should create applications");
+    log("Owner access verified");
+
+    log("🎉 All admin role tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+runTests();
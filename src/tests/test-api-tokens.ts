@@ -0,0 +1,196 @@
+// Test script for scoped API tokens - bearer authentication, scopes, expiry, revocation and persistence
+
+import { Effect, Layer, Context } from "effect";
+import type { AddressInfo } from "node:net";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { ApiTokenService, ApiTokenServiceLayer, ApiTokenStore, InMemoryApiTokenStoreLayer } from "../core/services/ApiTokenService.js";
+import { SqliteApiTokenStoreLayer, SqliteConfigServiceLayer } from "../core/services/SqliteConfigService.js";
+import { FileSystemApiTokenStoreLayer } from "../core/services/FileSystemConfigService.js";
+import { createExpressApp } from "../server/app.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: {
+    username: "admin",
+    password: "admin",
+    users: [{ username: "alice", password: "alice-pw", roles: { "app-a": "editor" } }],
+  },
+};
+
+const optionsLayer = (options: ConfigManagerOptions) =>
+  Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), options);
+
+const buildTokenService = (storeLayer: Layer.Layer<ApiTokenStore, unknown, ConfigManagerOptions>, options: ConfigManagerOptions) =>
+  Effect.runPromise(Effect.provide(ApiTokenService, Layer.provide(Layer.provide(ApiTokenServiceLayer, storeLayer), optionsLayer(options))));
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function application(applicationId: string): AppConfig {
+  return {
+    applicationId,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { foo: "bar" } },
+    schema: { type: "object" },
+    lastUpdated: new Date(),
+  };
+}
+
+// Tokens created by one instance of a store must authenticate in a fresh one over the same storage
+async function checkPersistence(label: string, storeLayer: Layer.Layer<ApiTokenStore, unknown, ConfigManagerOptions>, options: ConfigManagerOptions) {
+  const first = await buildTokenService(storeLayer, options);
+  const { token, secret } = await Effect.runPromise(first.create({ name: "persisted", applications: ["*"], scopes: ["read"] }, "admin"));
+  const second = await buildTokenService(storeLayer, options);
+  const authenticated = await Effect.runPromise(second.authenticate(secret));
+  assert(authenticated?.id === token.id, `${label}: the token should authenticate after a restart`);
+  assert(authenticated!.lastUsedAt instanceof Date, `${label}: dates should be revived`);
+  await Effect.runPromise(second.revoke(token.id));
+  assert((await Effect.runPromise(first.authenticate(secret))) === null, `${label}: revocation should be seen by every instance`);
+}
+
+// As composed by configManager.start(), the SQLite storage and token store share one connection:
+// with ":memory:" a second one would be a separate, empty database
+async function checkSharedSqliteConnection() {
+  const opened: string[] = [];
+  const options: ConfigManagerOptions = {
+    ...mockConfig,
+    logger: { ...mockConfig.logger, info: (message: string) => void opened.push(message) },
+    sqlite: { filename: ":memory:" },
+  };
+  const { service, tokens } = await Effect.runPromise(
+    Effect.all({ service: ConfigStorageService, tokens: ApiTokenService }).pipe(
+      Effect.provide(
+        Layer.merge(SqliteConfigServiceLayer, Layer.provide(ApiTokenServiceLayer, SqliteApiTokenStoreLayer)).pipe(Layer.provide(optionsLayer(options)))
+      )
+    )
+  );
+  const connections = opened.filter((message) => message.startsWith("SQLite database opened")).length;
+  assert(connections === 1, `The storage and the token store should share one connection, got ${connections}`);
+  await Effect.runPromise(service.createApplication(application("app-shared")));
+  const { secret } = await Effect.runPromise(tokens.create({ name: "shared", applications: ["*"], scopes: ["read"] }, "admin"));
+  assert((await Effect.runPromise(tokens.authenticate(secret))) !== null, "Tokens should work over the shared connection");
+}
+
+async function runTests(): Promise<void> {
+  const service = await Effect.runPromise(
+    Effect.provide(ConfigStorageService, Layer.provide(InMemoryConfigServiceLayer, optionsLayer(mockConfig)))
+  );
+  await Effect.runPromise(Effect.all([service.createApplication(application("app-a")), service.createApplication(application("app-b"))]));
+  const tokens = await buildTokenService(InMemoryApiTokenStoreLayer, mockConfig);
+
+  const server = createExpressApp(mockConfig, service, undefined, undefined, tokens).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const adminUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/admin`;
+
+  function request(authorization: string) {
+    return (path: string, method = "GET", body?: unknown) =>
+      fetch(`${adminUrl}${path}`, {
+        method,
+        headers: { Authorization: authorization, "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+  }
+  const basic = (username: string, password: string) => request("Basic " + Buffer.from(`${username}:${password}`).toString("base64"));
+  const bearer = (secret: string) => request(`Bearer ${secret}`);
+  const admin = basic("admin", "admin");
+  const alice = basic("alice", "alice-pw");
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "configurator-tokens-"));
+
+  try {
+    log("Creating tokens...");
+    const created = await admin("/tokens", "POST", { name: "ci", applications: ["app-a"], scopes: ["read", "write"] });
+    assert(created.status === 201, `Creating a token should answer 201, got ${created.status}`);
+    const { token, secret }: any = await created.json();
+    assert(typeof secret === "string" && secret.startsWith("cfg_"), "The secret should be returned once");
+    assert(token.secretHash === undefined, "The hash should never be exposed");
+    const invalid = await admin("/tokens", "POST", { name: "", applications: [], scopes: ["delete"] });
+    assert(invalid.status === 400, `Invalid requests should answer 400, got ${invalid.status}`);
+    const beyondRole = await alice("/tokens", "POST", { name: "escalate", applications: ["app-a"], scopes: ["archive"] });
+    assert(beyondRole.status === 403, `Users should not grant more than their role, got ${beyondRole.status}`);
+    const aliceToken: any = await (await alice("/tokens", "POST", { name: "alice-ci", applications: ["app-a"], scopes: ["write"] })).json();
+    log("Token creation verified");
+
+    log("Checking scopes...");
+    const ci = bearer(secret);
+    const visible: any[] = await (await ci("/applications")).json();
+    assert(visible.map((app) => app.applicationId).join(",") === "app-a", "Tokens should only list their applications");
+    assert((await ci("/applications/app-a")).status === 200, "The read scope should read the application");
+    assert((await ci("/applications/app-b")).status === 403, "Tokens should not reach other applications");
+    const written = await ci("/applications/app-a/configs", "POST", { name: "prod", data: { foo: "prod" }, versions: ["1.0.0"] });
+    assert(written.status === 201, `The write scope should create named configs, got ${written.status}`);
+    const revisions: any[] = await (await ci("/applications/app-a/revisions")).json();
+    assert(revisions[0].author === "token:ci", `Writes should be attributed to the token, got ${revisions[0].author}`);
+    assert((await ci("/applications/app-a/archive", "POST")).status === 403, "Archiving needs the archive scope");
+    assert((await ci("/applications/app-a", "PUT", { defaultConfig: { data: {} } })).status === 403, "Tokens should not update applications");
+    assert((await ci("/applications", "POST", application("app-c"))).status === 403, "Tokens should not create applications");
+    assert((await ci("/tokens")).status === 403, "Tokens should not manage tokens");
+    const readOnly = bearer(aliceToken.secret);
+    assert((await readOnly("/applications/app-a")).status === 403, "A token without the read scope should not read");
+    log("Scopes verified");
+
+    log("Checking invalid tokens...");
+    const unknown = await bearer("cfg_0000000000000000_" + "x".repeat(32))("/applications");
+    const unknownBody: any = await unknown.json();
+    assert(unknown.status === 401 && unknownBody.tag === "InvalidTokenError", `Unknown tokens should answer 401, got ${unknown.status}`);
+    assert(unknown.headers.get("WWW-Authenticate")?.startsWith("Bearer") === true, "401 should challenge for a bearer token");
+    const tampered = secret.slice(0, -1) + (secret.endsWith("A") ? "B" : "A");
+    assert((await bearer(tampered)("/applications")).status === 401, "A tampered secret should be rejected");
+    const expiring = await Effect.runPromise(
+      tokens.create({ name: "short", applications: ["*"], scopes: ["read"], expiresAt: new Date(Date.now() + 200) }, "admin")
+    );
+    assert((await bearer(expiring.secret)("/applications")).status === 200, "A token should work until it expires");
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    assert((await bearer(expiring.secret)("/applications")).status === 401, "Expired tokens should be rejected");
+    log("Invalid tokens verified");
+
+    log("Listing and revoking...");
+    const listed: any[] = await (await admin("/tokens")).json();
+    const listedCi = listed.find((entry) => entry.id === token.id);
+    assert(listed.length === 3 && listed.every((entry) => entry.secretHash === undefined), "The admin should list every token without hashes");
+    assert(listedCi.lastUsedAt !== undefined, "Using a token should record when");
+    const ownTokens: any[] = await (await alice("/tokens")).json();
+    assert(ownTokens.map((entry) => entry.name).join(",") === "alice-ci", "Users should only list their own tokens");
+    assert((await alice(`/tokens/${token.id}`, "DELETE")).status === 403, "Users should not revoke tokens of others");
+    assert((await admin(`/tokens/${token.id}`, "DELETE")).status === 204, "The admin should revoke tokens");
+    assert((await ci("/applications")).status === 401, "Revoked tokens should be rejected");
+    assert((await admin("/tokens/unknown", "DELETE")).status === 404, "Revoking an unknown token should answer 404");
+    log("Listing and revocation verified");
+
+    log("Checking persistence...");
+    await checkPersistence("SQLite", SqliteApiTokenStoreLayer, { ...mockConfig, sqlite: { filename: path.join(directory, "tokens.db") } });
+    await checkPersistence("file-system", FileSystemApiTokenStoreLayer, { ...mockConfig, filesystem: { directory } });
+    await checkSharedSqliteConnection();
+    log("Persistence verified");
+
+    log("🎉 All API token tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+runTests();
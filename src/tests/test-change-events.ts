@@ -0,0 +1,118 @@
+// Test script for cross-instance change events - cache invalidation from the change feed, and MongoDB change streams (or polling) when MONGO_HOST is set
+
+import { Effect, Layer, Context, Queue, Option } from "effect";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { MongoConfigServiceLayer } from "../core/services/MongoConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { ConfigChangeService, ConfigChangeServiceLayer } from "../core/services/ConfigChangeService.js";
+import { ResolutionCacheService, ResolutionCacheServiceLayer } from "../core/services/ResolutionCacheService.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const TEST_APP_ID = `app-changes-${Date.now()}`;
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  resolutionCache: {},
+};
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Same composition as configManager.start(): the change feed is shared by the storage and the cache
+function instanceLayer(storage: Layer.Layer<ConfigStorageService, unknown, ConfigManagerOptions>, options: Partial<ConfigManagerOptions>) {
+  return Layer.provide(ResolutionCacheServiceLayer, storage).pipe(
+    Layer.provideMerge(ConfigChangeServiceLayer),
+    Layer.provide(Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), { ...mockConfig, ...options }))
+  );
+}
+
+const app: AppConfig = {
+  applicationId: TEST_APP_ID,
+  archived: false,
+  namedConfigs: {},
+  defaultConfig: { data: { foo: "v1" } },
+  schema: {},
+  lastUpdated: new Date(),
+};
+
+const testCacheInvalidation = Effect.gen(function* () {
+  const service = yield* ConfigStorageService;
+  const cache = yield* ResolutionCacheService;
+  const changes = yield* ConfigChangeService;
+  const request = { applicationId: TEST_APP_ID, version: "1.0.0" };
+
+  log("Invalidating cached resolutions on change events...");
+  yield* service.createApplication(app);
+  yield* service.getConfig(request);
+  yield* service.getConfig(request);
+  yield* changes.publish({ applicationId: TEST_APP_ID, revision: 2, source: "change-stream" });
+  yield* Effect.sleep("10 millis");
+  yield* service.getConfig(request);
+  const stats = yield* cache.stats();
+  assert(stats.hits === 1 && stats.misses === 2, `A change event should invalidate the application, got ${JSON.stringify(stats)}`);
+  log("Cache invalidation verified");
+});
+
+async function testMongoChangeEvents(): Promise<void> {
+  const mongodb = {
+    host: process.env.MONGO_HOST!,
+    port: Number(process.env.MONGO_PORT || 27017),
+    collection: "change_event_configs",
+    auth: {
+      database: process.env.MONGO_DATABASE || "admin",
+      user: process.env.MONGO_USER || "",
+      password: process.env.MONGO_PASSWORD || "",
+    },
+    changeStream: { pollIntervalMs: 200 },
+  };
+
+  log("Watching MongoDB for changes made by another instance...");
+  const writer = await Effect.runPromise(
+    Effect.provide(ConfigStorageService, instanceLayer(MongoConfigServiceLayer, { mongodb }))
+  );
+  const program = Effect.gen(function* () {
+    const changes = yield* ConfigChangeService;
+    const subscription = yield* changes.subscribe();
+    // Give the watcher time to open its stream (or take its first poll) before writing
+    yield* Effect.sleep("500 millis");
+    yield* writer.createApplication(app);
+    const event = yield* Queue.take(subscription).pipe(Effect.timeout("10 seconds"), Effect.option);
+    assert(Option.isSome(event), "The other instance should publish a change event");
+    assert(event.pipe(Option.getOrThrow).applicationId === TEST_APP_ID, "The event should name the changed application");
+    log(`Change event received through ${event.pipe(Option.getOrThrow).source}`);
+  });
+  await Effect.runPromise(program.pipe(Effect.scoped, Effect.provide(instanceLayer(MongoConfigServiceLayer, { mongodb }))));
+}
+
+async function runTests(): Promise<void> {
+  try {
+    await Effect.runPromise(testCacheInvalidation.pipe(Effect.provide(instanceLayer(InMemoryConfigServiceLayer, {}))));
+    if (process.env.MONGO_HOST) {
+      await testMongoChangeEvents();
+    } else {
+      log("MONGO_HOST not set, skipping MongoDB change events");
+    }
+    log("🎉 All change event tests passed successfully!");
+    process.exit(0);
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+runTests();
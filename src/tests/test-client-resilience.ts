@@ -0,0 +1,123 @@
+// Test script for ConfigClient resilience - error classes, retries, timeouts and last-known-good and default fallbacks
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  ConfigClient,
+  ConfigClientError,
+  ConfigNotFoundError,
+  InvalidVersionError,
+  ConfigServerError,
+  ConfigUnreachableError,
+  type ConfigClientOptions,
+  type ConfigFallbackSource,
+} from "../client.js";
+
+const TEST_APP_ID = "app-resilience";
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Scripted server: answers each request with the next response, repeating the last one
+let script: { status: number; body?: unknown; delayMs?: number }[] = [];
+let requests = 0;
+const server = http.createServer((_req, res) => {
+  const response = script[Math.min(requests++, script.length - 1)];
+  setTimeout(() => {
+    res.writeHead(response.status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response.body ?? { error: "scripted" }));
+  }, response.delayMs ?? 0);
+});
+
+function respond(...responses: typeof script): void {
+  script = responses;
+  requests = 0;
+}
+
+async function expectError(promise: Promise<unknown>, type: typeof ConfigClientError): Promise<ConfigClientError> {
+  const error = await promise.then(
+    () => undefined,
+    (e) => e
+  );
+  assert(error instanceof type, `Expected ${type.name}, got ${error?.name ?? "success"}`);
+  return error;
+}
+
+async function runTests(): Promise<void> {
+  server.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  const cacheDirectory = await fs.mkdtemp(path.join(os.tmpdir(), "configurator-client-"));
+  const fallbacks: ConfigFallbackSource[] = [];
+  const options: ConfigClientOptions = {
+    baseUrl,
+    applicationId: TEST_APP_ID,
+    retries: 2,
+    retryDelayMs: 10,
+    timeoutMs: 200,
+    onFallback: (_error, source) => fallbacks.push(source),
+  };
+
+  try {
+    log("Classifying failures...");
+    const client = new ConfigClient(options);
+    respond({ status: 404 });
+    const notFound = await expectError(client.getConfig("1.0.0"), ConfigNotFoundError);
+    assert(notFound.status === 404 && requests === 1, "404 should not be retried");
+    respond({ status: 400 });
+    await expectError(client.getConfig("1.0.0"), InvalidVersionError);
+    assert(requests === 1, "400 should not be retried");
+    respond({ status: 503 });
+    const unavailable = await expectError(client.getConfig("1.0.0"), ConfigServerError);
+    assert(unavailable.status === 503 && requests === 3, `5xx should be retried twice, got ${requests} requests`);
+    respond({ status: 200, delayMs: 500 });
+    const timedOut = await expectError(new ConfigClient({ ...options, retries: 0 }).getConfig("1.0.0"), ConfigUnreachableError);
+    assert(timedOut.message.includes("200ms"), `Timeouts should be reported, got "${timedOut.message}"`);
+    log("Error classes verified");
+
+    log("Retrying transient failures...");
+    respond({ status: 503 }, { status: 502 }, { status: 200, body: { foo: "v1" } });
+    const recovered = await new ConfigClient({ ...options, cacheDirectory }).getConfig("1.0.0");
+    assert(recovered.foo === "v1" && requests === 3, "A success within the retries should be returned");
+    log("Retries verified");
+
+    log("Falling back to the last known good config...");
+    const cached = new ConfigClient({ ...options, cacheDirectory });
+    respond({ status: 200, body: { foo: "v2" } });
+    await cached.getConfig("1.0.0");
+    respond({ status: 500 });
+    assert((await cached.getConfig("1.0.0")).foo === "v2", "The last config received should be served during an outage");
+    await expectError(cached.getConfig("2.0.0"), ConfigServerError);
+    respond({ status: 404 });
+    await expectError(cached.getConfig("1.0.0"), ConfigNotFoundError);
+
+    // A restarted client finds the config on disk, even with the server down
+    const restarted = new ConfigClient({ ...options, baseUrl: "http://127.0.0.1:1", cacheDirectory });
+    assert((await restarted.getConfig("1.0.0")).foo === "v2", "The config saved on disk should be served");
+
+    const withDefaults = new ConfigClient({ ...options, baseUrl: "http://127.0.0.1:1", defaults: { foo: "bundled" } });
+    assert((await withDefaults.getConfig("1.0.0")).foo === "bundled", "Bundled defaults should be served last");
+    assert(fallbacks.join(",") === "memory,disk,defaults", `Unexpected fallbacks: ${fallbacks.join(",")}`);
+    log("Fallbacks verified");
+
+    log("🎉 All client resilience tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+    await fs.rm(cacheDirectory, { recursive: true, force: true });
+  }
+}
+
+runTests();
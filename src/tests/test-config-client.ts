@@ -0,0 +1,148 @@
+// Test script for ConfigClient watchers - change events over the config stream and over conditional polling
+
+import { Effect, Layer, Context } from "effect";
+import type { AddressInfo } from "node:net";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { ConfigChangeService, ConfigChangeServiceLayer, ConfigChangePublisherLayer } from "../core/services/ConfigChangeService.js";
+import { ResolutionCacheService, ResolutionCacheServiceLayer } from "../core/services/ResolutionCacheService.js";
+import { createExpressApp } from "../server/app.js";
+import { ConfigClient, type ConfigChangeEvent, type WatchOptions } from "../client.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const TEST_APP_ID = "app-client";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  // Served as no-cache, so polling clients use their own pollIntervalMs
+  cacheControl: { maxAgeSeconds: 0, defaultMaxAgeSeconds: 0 },
+};
+
+// Same composition as configManager.start()
+const appLayer = Layer.provide(
+  ResolutionCacheServiceLayer,
+  Layer.provide(ConfigChangePublisherLayer, InMemoryConfigServiceLayer)
+).pipe(
+  Layer.provideMerge(ConfigChangeServiceLayer),
+  Layer.provide(Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig))
+);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Collects the change events of one watcher and waits for the next one
+function collect(client: ConfigClient, options: WatchOptions) {
+  const events: ConfigChangeEvent[] = [];
+  let waiting: (() => void) | undefined;
+  const watcher = client.watch("1.0.0", (event) => {
+    events.push(event);
+    waiting?.();
+  }, options);
+
+  async function next(): Promise<ConfigChangeEvent> {
+    const deadline = Date.now() + 3000;
+    while (events.length === 0) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for a change event (${options.transport})`);
+      }
+      await new Promise<void>((resolve) => {
+        waiting = resolve;
+        setTimeout(resolve, 100);
+      });
+    }
+    return events.shift()!;
+  }
+
+  return { watcher, events, next };
+}
+
+async function runTests(): Promise<void> {
+  const { service, cache, changes } = await Effect.runPromise(
+    Effect.all({ service: ConfigStorageService, cache: ResolutionCacheService, changes: ConfigChangeService }).pipe(
+      Effect.provide(appLayer)
+    )
+  );
+  const server = createExpressApp(mockConfig, service, cache, changes).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const client = new ConfigClient({ baseUrl: `http://localhost:${(server.address() as AddressInfo).port}`, applicationId: TEST_APP_ID });
+  const run = <A, E>(effect: Effect.Effect<A, E>) => Effect.runPromise(effect);
+
+  const app: AppConfig = {
+    applicationId: TEST_APP_ID,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { foo: "v1" } },
+    schema: {},
+    lastUpdated: new Date(),
+  };
+
+  try {
+    await run(service.createApplication(app));
+
+    for (const transport of ["stream", "poll"] as const) {
+      log(`Watching over ${transport}...`);
+      const errors: Error[] = [];
+      const { watcher, events, next } = collect(client, {
+        transport,
+        minIntervalMs: 50,
+        pollIntervalMs: 50,
+        onError: (error) => errors.push(error),
+      });
+
+      const first = await next();
+      assert(first.previous === undefined && first.current.foo === "v1", `Expected the first value, got ${JSON.stringify(first)}`);
+      assert(first.source === transport, `Expected a ${transport} event, got ${first.source}`);
+      assert(watcher.current.foo === "v1", "The watcher should expose the latest value");
+
+      await run(service.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v2" } } }));
+      const changed = await next();
+      assert(changed.previous.foo === "v1" && changed.current.foo === "v2", `Expected old and new values, got ${JSON.stringify(changed)}`);
+      assert(typeof changed.revision === "number", "Change events should carry the revision");
+
+      // A change that does not alter this version's config is not an event
+      await run(service.createNamedConfig(TEST_APP_ID, "next", { foo: "next" }, ["2.0.0"]));
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      assert(events.length === 0, `Unrelated changes should not be emitted, got ${JSON.stringify(events)}`);
+      assert(errors.length === 0, `No errors expected, got ${errors.map((error) => error.message)}`);
+
+      // Reset for the next transport
+      watcher.close();
+      await run(service.deleteNamedConfig(TEST_APP_ID, "next"));
+      await run(service.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v1" } } }));
+      log(`${transport} watcher verified`);
+    }
+
+    log("Closing the client...");
+    const unsubscribe = client.subscribe("1.0.0", () => {});
+    client.watch("1.0.0", undefined, { transport: "poll" });
+    client.close();
+    unsubscribe();
+    log("Client closed");
+
+    log("🎉 All config client tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  } finally {
+    client.close();
+    server.closeAllConnections();
+    server.close();
+  }
+}
+
+runTests();
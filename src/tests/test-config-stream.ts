@@ -0,0 +1,178 @@
+// Test script for the config stream - Server-Sent Events on admin changes, heartbeats, Last-Event-ID resume and connection limits
+
+import { Effect, Layer, Context } from "effect";
+import type { AddressInfo } from "node:net";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { ConfigChangeService, ConfigChangeServiceLayer, ConfigChangePublisherLayer } from "../core/services/ConfigChangeService.js";
+import { ResolutionCacheService, ResolutionCacheServiceLayer } from "../core/services/ResolutionCacheService.js";
+import { createExpressApp } from "../server/app.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const TEST_APP_ID = "app-stream";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  resolutionCache: {},
+  stream: { heartbeatSeconds: 0.2, maxConnectionsPerClient: 2 },
+};
+
+// Same composition as configManager.start()
+const appLayer = Layer.provide(
+  ResolutionCacheServiceLayer,
+  Layer.provide(ConfigChangePublisherLayer, InMemoryConfigServiceLayer)
+).pipe(
+  Layer.provideMerge(ConfigChangeServiceLayer),
+  Layer.provide(Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig))
+);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+interface StreamMessage {
+  id?: string;
+  event?: string;
+  data?: any;
+  comment?: string;
+}
+
+// Minimal SSE reader over fetch, returning messages one at a time
+async function openStream(url: string, headers: Record<string, string> = {}) {
+  const response = await fetch(url, { headers });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  async function next(timeoutMs = 2000): Promise<StreamMessage> {
+    const deadline = Date.now() + timeoutMs;
+    while (true) {
+      const end = buffer.indexOf("\n\n");
+      if (end >= 0) {
+        const message: StreamMessage = {};
+        for (const line of buffer.slice(0, end).split("\n")) {
+          if (line.startsWith(":")) message.comment = line.slice(1).trim();
+          else if (line.startsWith("id: ")) message.id = line.slice(4);
+          else if (line.startsWith("event: ")) message.event = line.slice(7);
+          else if (line.startsWith("data: ")) message.data = JSON.parse(line.slice(6));
+        }
+        buffer = buffer.slice(end + 2);
+        return message;
+      }
+      const chunk = await Promise.race([
+        reader.read(),
+        new Promise<never>((_, reject) => setTimeout(() => reject(new Error("Timed out waiting for a stream event")), deadline - Date.now())),
+      ]);
+      if (chunk.done) {
+        throw new Error("Stream ended");
+      }
+      buffer += decoder.decode(chunk.value, { stream: true });
+    }
+  }
+
+  // Skips heartbeats
+  async function nextEvent(): Promise<StreamMessage> {
+    const message = await next();
+    return message.comment === "heartbeat" ? nextEvent() : message;
+  }
+
+  return { response, next, nextEvent, close: () => reader.cancel() };
+}
+
+async function runTests(): Promise<void> {
+  const { service, cache, changes } = await Effect.runPromise(
+    Effect.all({ service: ConfigStorageService, cache: ResolutionCacheService, changes: ConfigChangeService }).pipe(
+      Effect.provide(appLayer)
+    )
+  );
+  const server = createExpressApp(mockConfig, service, cache, changes).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  const streamUrl = `${baseUrl}/config/${TEST_APP_ID}/1.0.0/stream`;
+  const run = <A, E>(effect: Effect.Effect<A, E>) => Effect.runPromise(effect);
+
+  const app: AppConfig = {
+    applicationId: TEST_APP_ID,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { foo: "v1" } },
+    schema: {},
+    lastUpdated: new Date(),
+  };
+
+  try {
+    log("Rejecting invalid and unknown streams...");
+    const invalid = await fetch(`${baseUrl}/config/${TEST_APP_ID}/not-semver/stream`);
+    assert(invalid.status === 400, `Invalid versions should be rejected, got ${invalid.status}`);
+    const missing = await fetch(streamUrl);
+    assert(missing.status === 404, `Unknown applications should return 404, got ${missing.status}`);
+    log("Rejections verified");
+
+    log("Streaming the resolved config...");
+    await run(service.createApplication(app));
+    const stream = await openStream(streamUrl);
+    assert(stream.response.headers.get("content-type") === "text/event-stream", "The stream should be an event stream");
+    const initial = await stream.nextEvent();
+    assert(initial.event === "config" && initial.id === "1" && initial.data.foo === "v1", `Expected the current config, got ${JSON.stringify(initial)}`);
+
+    await run(service.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v2" } } }));
+    const updated = await stream.nextEvent();
+    assert(updated.id === "2" && updated.data.foo === "v2", `Expected the updated config, got ${JSON.stringify(updated)}`);
+    log("Initial config and update verified");
+
+    log("Skipping changes that do not alter this version's resolution...");
+    await run(service.createNamedConfig(TEST_APP_ID, "next", { foo: "next" }, ["2.0.0"]));
+    await run(service.createNamedConfig(TEST_APP_ID, "beta", { foo: "beta" }, ["1.0.0"]));
+    const beta = await stream.nextEvent();
+    assert(beta.id === "4" && beta.data.foo === "beta", `Expected only the matching named config, got ${JSON.stringify(beta)}`);
+
+    await run(service.archiveApplication(TEST_APP_ID));
+    const archived = await stream.nextEvent();
+    assert(archived.event === "unavailable", `Archiving should be announced, got ${JSON.stringify(archived)}`);
+    await run(service.unarchiveApplication(TEST_APP_ID));
+    const restored = await stream.nextEvent();
+    assert(restored.event === "config" && restored.data.foo === "beta", "Unarchiving should send the config again");
+    log("Change filtering verified");
+
+    log("Resuming from Last-Event-ID...");
+    const resumed = await openStream(streamUrl, { "Last-Event-ID": restored.id! });
+    const first = await resumed.next();
+    assert(first.comment === "heartbeat", `A client at the current revision should only get heartbeats, got ${JSON.stringify(first)}`);
+    log("Resume verified");
+
+    log("Limiting connections per client...");
+    const rejected = await fetch(streamUrl);
+    assert(rejected.status === 429, `A third stream from the same client should be rejected, got ${rejected.status}`);
+    await resumed.close();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const reopened = await openStream(streamUrl);
+    assert(reopened.response.status === 200, "Closed streams should free their slot");
+    await reopened.close();
+    await stream.close();
+    log("Connection limits verified");
+
+    log("🎉 All config stream tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+}
+
+runTests();
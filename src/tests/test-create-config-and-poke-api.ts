@@ -31,13 +31,19 @@ const AUTH_HEADER = "Basic " + Buffer.from("admin:admin").toString("base64");
 interface HttpResponse {
   statusCode: number;
   data: any;
+  headers: http.IncomingHttpHeaders;
 }
 
 async function log(message: string): Promise<void> {
   console.log(`[TEST] ${message}`);
 }
 
-async function makeRequest(path: string, method: string = "GET", body: any = null): Promise<HttpResponse> {
+async function makeRequest(
+  path: string,
+  method: string = "GET",
+  body: any = null,
+  extraHeaders: Record<string, string> = {}
+): Promise<HttpResponse> {
   return new Promise((resolve, reject) => {
     const options = {
       hostname: "localhost",
@@ -47,6 +53,7 @@ async function makeRequest(path: string, method: string = "GET", body: any = nul
       headers: {
         "Content-Type": "application/json",
         Authorization: AUTH_HEADER,
+        ...extraHeaders,
       },
     };
 
@@ -56,9 +63,9 @@ async function makeRequest(path: string, method: string = "GET", body: any = nul
       res.on("end", () => {
         try {
           const result = data ? JSON.parse(data) : null;
-          resolve({ statusCode: res.statusCode || 0, data: result });
+          resolve({ statusCode: res.statusCode || 0, data: result, headers: res.headers });
         } catch (e) {
-          resolve({ statusCode: res.statusCode || 0, data: data });
+          resolve({ statusCode: res.statusCode || 0, data: data, headers: res.headers });
         }
       });
     });
@@ -179,6 +186,43 @@ async function runTests(): Promise<void> {
     }
     await log("Named configuration verified successfully");
 
+    // Step 8: Conditional GET with the returned ETag
+    const etag = namedConfigResult.headers.etag;
+    if (!etag || !namedConfigResult.headers["last-modified"]) {
+      throw new Error(`Missing validators. ETag: ${etag}, Last-Modified: ${namedConfigResult.headers["last-modified"]}`);
+    }
+    await log(`Re-querying with If-None-Match: ${etag} (should return 304)...`);
+    const notModifiedResult = await makeRequest(`/config/${TEST_APP_ID}/${VERSION}`, "GET", null, { "If-None-Match": etag });
+    if (notModifiedResult.statusCode !== 304) {
+      throw new Error(`Expected 304 for matching ETag. Status: ${notModifiedResult.statusCode}`);
+    }
+    if (notModifiedResult.headers["cache-control"] !== "max-age=10") {
+      throw new Error(`304 should carry Cache-Control. Got: ${notModifiedResult.headers["cache-control"]}`);
+    }
+
+    // Step 9: Changing the named config changes the ETag
+    await log(`Updating named configuration '${NAMED_VERSION}' and re-querying with the old ETag...`);
+    await makeRequest(`/api/admin/applications/${TEST_APP_ID}/configs/${NAMED_VERSION}`, "PUT", {
+      data: { foo: "updated named config" },
+      versions: [VERSION],
+    });
+    const modifiedResult = await makeRequest(`/config/${TEST_APP_ID}/${VERSION}`, "GET", null, { "If-None-Match": etag });
+    if (modifiedResult.statusCode !== 200 || modifiedResult.headers.etag === etag) {
+      throw new Error(
+        `Expected 200 with a new ETag after update. Status: ${modifiedResult.statusCode}, ETag: ${modifiedResult.headers.etag}`
+      );
+    }
+    await log("Conditional GET verified successfully");
+
+    // Step 10: Readiness reports the storage backend
+    await log("Checking liveness and readiness...");
+    const liveResult = await makeRequest("/health/live");
+    const readyResult = await makeRequest("/health/ready");
+    if (liveResult.statusCode !== 200 || readyResult.statusCode !== 200 || readyResult.data.storage?.backend !== "in-memory") {
+      throw new Error(`Expected live and ready. Got: ${liveResult.statusCode}, ${readyResult.statusCode} ${JSON.stringify(readyResult.data)}`);
+    }
+    await log("Health endpoints verified successfully");
+
     await log("🎉 All tests passed successfully!");
   } catch (error: any) {
     await log(`❌ Test failed: ${error.message}`);
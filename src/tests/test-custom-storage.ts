@@ -0,0 +1,90 @@
+// Test script for custom storage - adapting a promise-based store into ConfigStorageService and mapping its rejections
+
+import { Effect, Exit, Cause } from "effect";
+import { createPromiseStorageLayer, type PromiseConfigStorageService } from "../core/services/PromiseConfigStorageService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { ApplicationNotFoundError, type AppConfig } from "../core/types.js";
+
+const TEST_APP_ID = "app-custom";
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Minimal promise-based store holding a single application
+const app: AppConfig = {
+  applicationId: TEST_APP_ID,
+  archived: false,
+  namedConfigs: {},
+  defaultConfig: { data: { foo: "bar" } },
+  schema: {},
+  lastUpdated: new Date(),
+};
+
+const notImplemented = async (): Promise<never> => {
+  throw new Error("not implemented");
+};
+
+const storage: PromiseConfigStorageService = {
+  listApplications: async () => [app],
+  getApplication: async (applicationId) => (applicationId === TEST_APP_ID ? app : null),
+  createApplication: notImplemented,
+  updateApplication: notImplemented,
+  archiveApplication: async (applicationId) => {
+    if (applicationId !== TEST_APP_ID) throw new ApplicationNotFoundError({ applicationId });
+  },
+  unarchiveApplication: notImplemented,
+  getConfig: notImplemented,
+  explainConfig: notImplemented,
+  createNamedConfig: notImplemented,
+  updateNamedConfig: notImplemented,
+  deleteNamedConfig: notImplemented,
+  listRevisions: notImplemented,
+  getRevision: notImplemented,
+  rollbackApplication: notImplemented,
+  healthCheck: notImplemented,
+};
+
+const program = Effect.gen(function* () {
+  const service = yield* ConfigStorageService;
+
+  log("Reading through the adapted store...");
+  const apps = yield* service.listApplications();
+  assert(apps.length === 1 && apps[0].applicationId === TEST_APP_ID, "Resolved values should pass through");
+  const found = yield* service.getApplication(TEST_APP_ID);
+  assert(found?.defaultConfig.data.foo === "bar", "getApplication should resolve the stored application");
+  log("Reads verified");
+
+  log("Mapping rejections...");
+  yield* service.archiveApplication(TEST_APP_ID);
+  const missing = yield* service.archiveApplication("missing").pipe(Effect.flip);
+  assert(missing._tag === "ApplicationNotFoundError", `Tagged rejections should be typed failures, got ${missing._tag}`);
+
+  const defect = yield* Effect.exit(service.unarchiveApplication(TEST_APP_ID));
+  assert(
+    Exit.isFailure(defect) && Cause.isDie(defect.cause),
+    "Rejections that are not tagged storage errors should be defects"
+  );
+
+  const health = yield* service.healthCheck();
+  assert(!health.healthy && health.message === "not implemented", "A rejected health check should report the store as unhealthy");
+  log("Rejection mapping verified");
+});
+
+async function runTests(): Promise<void> {
+  try {
+    await Effect.runPromise(program.pipe(Effect.provide(createPromiseStorageLayer(storage))));
+    log("🎉 All custom storage tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+runTests();
@@ -0,0 +1,193 @@
+// Test script for the file-system storage layer - persistence across restarts, revision history, stale writes and lost updates between instances sharing a directory
+
+import { Effect, Layer, Context } from "effect";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { FileSystemConfigServiceLayer } from "../core/services/FileSystemConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import type { AppConfig } from "../core/types.js";
+
+const TEST_APP_ID = "app/filesystem";
+const TEST_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  properties: {},
+  required: [],
+  additionalProperties: true,
+};
+
+function makeOptionsLayer(directory: string) {
+  const mockConfig = {
+    port: 3000,
+    logger: {
+      info: () => {},
+      error: () => {},
+      warn: () => {},
+      debug: () => {},
+      log: () => {},
+    },
+    admin: { username: "admin", password: "admin" },
+    filesystem: { directory },
+  };
+  return Layer.succeed(Context.GenericTag("ConfigManagerOptions"), mockConfig);
+}
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Each call builds a fresh layer, the same as a process (re)starting against the directory
+const withService = <A, E>(directory: string, use: (service: ConfigStorageService) => Effect.Effect<A, E>) =>
+  Effect.flatMap(ConfigStorageService, use).pipe(
+    Effect.provide(FileSystemConfigServiceLayer),
+    Effect.provide(makeOptionsLayer(directory))
+  );
+
+const program = (directory: string) =>
+  Effect.gen(function* () {
+    const app: AppConfig = {
+      applicationId: TEST_APP_ID,
+      archived: false,
+      namedConfigs: {},
+      defaultConfig: { data: { foo: "v1" } },
+      schema: TEST_SCHEMA,
+      lastUpdated: new Date(),
+    };
+
+    log("Writing through a first instance...");
+    yield* withService(directory, (service) =>
+      Effect.gen(function* () {
+        yield* service.createApplication(app, "alice");
+        yield* service.createNamedConfig(TEST_APP_ID, "beta", { foo: "beta" }, ["1.0.0"], "bob");
+        const duplicate = yield* service.createApplication(app).pipe(Effect.flip);
+        assert(duplicate._tag === "ApplicationAlreadyExistsError", `Expected ApplicationAlreadyExistsError, got ${duplicate._tag}`);
+      })
+    );
+
+    const files = yield* Effect.promise(() => fs.readdir(directory));
+    assert(files.includes(`${encodeURIComponent(TEST_APP_ID)}.json`), `Expected one JSON file per application, got ${files.join(", ")}`);
+    assert(!files.some((f) => f.endsWith(".tmp") || f === ".lock"), `No temporary or lock files should remain, got ${files.join(", ")}`);
+    log("Application persisted to disk");
+
+    log("Reloading from disk in a second instance...");
+    yield* withService(directory, (service) =>
+      Effect.gen(function* () {
+        const reloaded = yield* service.getApplication(TEST_APP_ID);
+        assert(reloaded?.revision === 2, `Reloaded application should be at revision 2, got ${reloaded?.revision}`);
+        assert(reloaded?.lastUpdated instanceof Date, "lastUpdated should be revived as a Date");
+
+        const resolved = yield* service.getConfig({ applicationId: TEST_APP_ID, version: "1.0.0" });
+        assert(resolved?.data.foo === "beta", `Reloaded named config should resolve, got ${resolved?.data.foo}`);
+
+        const revisions = yield* service.listRevisions(TEST_APP_ID);
+        assert(revisions.map((r) => r.revision).join(",") === "2,1", "Revision history should survive a restart");
+        assert(revisions[1].author === "alice" && revisions[1].timestamp instanceof Date, "Revision metadata should be revived");
+      })
+    );
+    log("Load-on-start verified");
+
+    log("Rejecting stale writes between instances...");
+    yield* withService(directory, (first) =>
+      withService(directory, (second) =>
+        Effect.gen(function* () {
+          yield* first.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v2" } } }, "carol", 2);
+          const stale = yield* second
+            .updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "lost" } } }, "dave", 2)
+            .pipe(Effect.flip);
+          assert(stale._tag === "StaleRevisionError", `Expected StaleRevisionError, got ${stale._tag}`);
+        })
+      )
+    );
+
+    const onDisk = JSON.parse(yield* Effect.promise(() => fs.readFile(path.join(directory, `${encodeURIComponent(TEST_APP_ID)}.json`), "utf8")));
+    assert(onDisk.defaultConfig.data.foo === "v2" && onDisk.revision === 3, "A stale write must not overwrite the file");
+    log("Cross-instance concurrency verified");
+
+    log("Applying unconditional writes to the latest revision on disk...");
+    yield* withService(directory, (first) =>
+      withService(directory, (second) =>
+        Effect.gen(function* () {
+          yield* first.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v3" } } }, "carol");
+          yield* second.createNamedConfig(TEST_APP_ID, "gamma", { foo: "gamma" }, ["3.0.0"], "dave");
+          yield* first.archiveApplication(TEST_APP_ID, "carol");
+        })
+      )
+    );
+    const merged = JSON.parse(yield* Effect.promise(() => fs.readFile(path.join(directory, `${encodeURIComponent(TEST_APP_ID)}.json`), "utf8")));
+    assert(merged.revision === 6 && merged.archived === true, `Expected the archive at revision 6, got ${merged.revision}`);
+    assert(merged.defaultConfig.data.foo === "v3", "Writes of other instances must not be lost");
+    assert(Object.keys(merged.namedConfigs).join(",") === "beta,gamma", `Named configs of other instances must be kept, got ${Object.keys(merged.namedConfigs)}`);
+    log("Unconditional writes verified");
+
+    log("Reading what other instances wrote...");
+    yield* withService(directory, (reader) =>
+      withService(directory, (writer) =>
+        Effect.gen(function* () {
+          const before = yield* reader.listApplications();
+          assert(before.length === 1, `Expected one application before the writes, got ${before.length}`);
+
+          yield* writer.unarchiveApplication(TEST_APP_ID, "dave");
+          yield* writer.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v4" } } }, "dave");
+          yield* writer.createApplication({ ...app, applicationId: "app/other", lastUpdated: new Date() }, "dave");
+
+          const seen = yield* reader.getConfig({ applicationId: TEST_APP_ID, version: "9.0.0" });
+          assert(seen?.data.foo === "v4" && seen.revision === 8, `Reads should see the latest write on disk, got ${seen?.data.foo} at ${seen?.revision}`);
+          const listed = yield* reader.listApplications();
+          assert(listed.map((a) => a.applicationId).sort().join(",") === "app/filesystem,app/other", "Lists should include applications created elsewhere");
+          const history = yield* reader.listRevisions(TEST_APP_ID);
+          assert(history[0]?.revision === 8, `Revision history should include writes made elsewhere, got ${history[0]?.revision}`);
+          yield* writer.archiveApplication(TEST_APP_ID, "dave");
+        })
+      )
+    );
+    log("Cross-instance reads verified");
+
+    log("Taking over a lock left by a crashed writer...");
+    const lockFile = path.join(directory, ".lock");
+    yield* Effect.promise(async () => {
+      await fs.writeFile(lockFile, "crashed-writer", "utf8");
+      const past = new Date(Date.now() - 60_000);
+      await fs.utimes(lockFile, past, past);
+    });
+    yield* withService(directory, (service) => service.unarchiveApplication(TEST_APP_ID, "carol"));
+    const remaining = yield* Effect.promise(() => fs.readdir(directory));
+    assert(!remaining.includes(".lock"), "The writer should release the lock it took over");
+    log("Stale lock takeover verified");
+
+    log("Reporting I/O failures as storage errors...");
+    // A directory where the application file should be fails every read, whatever the user running the test
+    yield* Effect.promise(() => fs.mkdir(path.join(directory, `${encodeURIComponent("app/broken")}.json`)));
+    yield* withService(directory, (service) =>
+      Effect.gen(function* () {
+        const read = yield* service.getApplication("app/broken").pipe(Effect.flip);
+        assert(read._tag === "UnexpectedServerError", `A failed read should fail with UnexpectedServerError, got ${read._tag}`);
+        const write = yield* service.createApplication({ ...app, applicationId: "app/broken" }).pipe(Effect.flip);
+        assert(write._tag === "UnexpectedServerError", `A failed write should fail with UnexpectedServerError, got ${write._tag}`);
+        const listed = yield* service.listApplications().pipe(Effect.flip);
+        assert(listed._tag === "UnexpectedServerError", `A failed listing should fail with UnexpectedServerError, got ${listed._tag}`);
+      })
+    );
+    log("I/O failures verified");
+  });
+
+async function runTests(): Promise<void> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "configurator-fs-"));
+  try {
+    await Effect.runPromise(program(directory));
+    log("🎉 All file-system storage tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+runTests();
@@ -0,0 +1,124 @@
+// Test script for layered config resolution - named config overrides deep-merged over the default through the in-memory and SQLite services
+
+import { Effect, Layer, Context } from "effect";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { SqliteConfigServiceLayer } from "../core/services/SqliteConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import type { AppConfig } from "../core/types.js";
+
+const mockConfig = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  sqlite: { filename: ":memory:" },
+};
+
+const ConfigManagerOptionsLayer = Layer.succeed(Context.GenericTag("ConfigManagerOptions"), mockConfig);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const MERGE_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  properties: {
+    apiUrl: { type: "string" },
+    timeout: { type: "number" },
+    hosts: { type: "array", items: { type: "string" } },
+    features: {
+      type: "object",
+      properties: { darkMode: { type: "boolean" }, analytics: { type: "boolean" } },
+      required: ["darkMode", "analytics"],
+    },
+  },
+  required: ["apiUrl", "timeout", "hosts", "features"],
+  additionalProperties: false,
+};
+
+const DEFAULT_DATA = {
+  apiUrl: "https://api.example.com",
+  timeout: 5000,
+  hosts: ["a.example.com", "b.example.com"],
+  features: { darkMode: false, analytics: true },
+};
+
+const program = Effect.gen(function* () {
+  const service = yield* ConfigStorageService;
+
+  const app: AppConfig = {
+    applicationId: "app-merge",
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: DEFAULT_DATA },
+    schema: MERGE_SCHEMA,
+    lastUpdated: new Date(),
+    namedConfigMode: "merge",
+  };
+
+  log("Creating named config holding only overrides...");
+  yield* service.createApplication(app);
+  yield* service.createNamedConfig(
+    "app-merge",
+    "beta",
+    { timeout: 1000, hosts: ["beta.example.com"], features: { darkMode: true } },
+    ["2.0.0"]
+  );
+
+  const merged = yield* service.getConfig({ applicationId: "app-merge", version: "2.0.0" });
+  const expected = {
+    apiUrl: "https://api.example.com",
+    timeout: 1000,
+    hosts: ["beta.example.com"],
+    features: { darkMode: true, analytics: true },
+  };
+  assert(
+    JSON.stringify(merged?.data) === JSON.stringify(expected),
+    `Expected merged config ${JSON.stringify(expected)}, got ${JSON.stringify(merged?.data)}`
+  );
+  log("Overrides deep-merged over the default, arrays replaced");
+
+  log("Validating merged result against the schema...");
+  const invalid = yield* service
+    .createNamedConfig("app-merge", "broken", { features: { darkMode: "yes" } }, ["3.0.0"])
+    .pipe(Effect.flip);
+  assert(invalid._tag === "ConfigValidationError", `Expected ConfigValidationError, got ${invalid._tag}`);
+
+  const replaceMode = yield* service.updateApplication("app-merge", { namedConfigMode: "replace" }).pipe(Effect.flip);
+  assert(
+    replaceMode._tag === "ConfigValidationError",
+    `Switching to replace mode should fail while overrides are partial, got ${replaceMode._tag}`
+  );
+  log("Schema validation after merging verified");
+});
+
+async function runTests(): Promise<void> {
+  try {
+    // Each run builds a fresh layer, so every backend starts from an empty store
+    for (const [name, layer] of [
+      ["in-memory", InMemoryConfigServiceLayer],
+      ["SQLite", SqliteConfigServiceLayer],
+    ] as const) {
+      log(`Running against ${name} storage...`);
+      await Effect.runPromise(program.pipe(Effect.provide(layer), Effect.provide(ConfigManagerOptionsLayer)));
+    }
+    log("🎉 All merge mode tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+runTests();
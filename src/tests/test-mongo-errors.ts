@@ -0,0 +1,144 @@
+// Test script for MongoDB failure handling - driver error classification, startup policy, unreachable servers and 503 responses
+
+import { Effect, Layer, Context } from "effect";
+import { MongoServerError, MongoNetworkError as DriverNetworkError } from "mongodb";
+import type { AddressInfo } from "node:net";
+import { classifyMongoError } from "../core/services/mongoErrors.js";
+import { MongoConfigServiceLayer } from "../core/services/MongoConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { createPromiseStorageLayer, type PromiseConfigStorageService } from "../core/services/PromiseConfigStorageService.js";
+import { createExpressApp } from "../server/app.js";
+import { configManager } from "../index.js";
+import { MongoNetworkError, type ConfigManagerOptions } from "../core/types.js";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  // Nothing listens on port 1, so every operation fails to reach a server
+  mongodb: {
+    uri: "mongodb://127.0.0.1:1/admin?serverSelectionTimeoutMS=200",
+    collection: "app_configs",
+    startup: { maxAttempts: 2, initialDelayMs: 10, onExhausted: "degraded" },
+  },
+};
+
+const ConfigManagerOptionsLayer = Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function testClassification(): void {
+  log("Classifying driver errors...");
+  const cases: [unknown, string][] = [
+    [new DriverNetworkError("connect ECONNREFUSED"), "MongoNetworkError"],
+    [new MongoServerError({ code: 18, errmsg: "Authentication failed." }), "MongoAuthError"],
+    [new MongoServerError({ code: 112, errmsg: "WriteConflict" }), "WriteConflictError"],
+    [new MongoServerError({ code: 11000, errmsg: "E11000 duplicate key error" }), "WriteConflictError"],
+    [Object.assign(new Error("Timed out while checking out a connection"), { name: "MongoWaitQueueTimeoutError" }), "PoolExhaustedError"],
+    [new MongoServerError({ code: 2, errmsg: "BadValue" }), "UnexpectedServerError"],
+  ];
+  for (const [error, tag] of cases) {
+    const classified = classifyMongoError(error);
+    assert(classified._tag === tag, `Expected ${tag}, got ${classified._tag}`);
+    assert(classified.cause === error, "The driver error should be kept as the cause");
+  }
+  log("Classification verified");
+}
+
+async function testFailFastStartup(): Promise<void> {
+  log("Starting against an unreachable MongoDB server with the fail policy...");
+  const startup = { maxAttempts: 2, initialDelayMs: 10, onExhausted: "fail" as const };
+  const error: any = await configManager
+    .start({ ...mockConfig, mongodb: { ...mockConfig.mongodb!, startup } })
+    .then(() => null, (e) => e);
+  assert(error?._tag === "MongoStartupError", `start() should reject with MongoStartupError, got ${error?._tag ?? error}`);
+  assert(error.attempts === 2, `Startup should give up after 2 attempts, got ${error.attempts}`);
+  assert(error.message.includes("127.0.0.1:1"), `The error should name the server, got "${error.message}"`);
+  log("start() rejected once the startup policy was exhausted");
+}
+
+async function testUnreachableServer(): Promise<void> {
+  log("Reading from an unreachable MongoDB server after a degraded start...");
+  const program = Effect.gen(function* () {
+    const service = yield* ConfigStorageService;
+    return yield* service.getConfig({ applicationId: "app", version: "1.0.0" }).pipe(Effect.flip);
+  });
+  const error = await Effect.runPromise(
+    program.pipe(Effect.provide(MongoConfigServiceLayer), Effect.provide(ConfigManagerOptionsLayer))
+  );
+  assert(error._tag === "MongoNetworkError", `An outage should fail with MongoNetworkError, got ${error._tag}`);
+
+  const health = await Effect.runPromise(
+    Effect.flatMap(ConfigStorageService, (service) => service.healthCheck()).pipe(
+      Effect.provide(MongoConfigServiceLayer),
+      Effect.provide(ConfigManagerOptionsLayer)
+    )
+  );
+  assert(health.backend === "mongodb" && !health.healthy, `Health check should report mongodb as unhealthy, got ${JSON.stringify(health)}`);
+  log("Outage surfaced as MongoNetworkError instead of a missing application");
+}
+
+async function testServiceUnavailableResponses(): Promise<void> {
+  log("Mapping storage outages to 503...");
+  const outage = async (): Promise<never> => {
+    throw new MongoNetworkError({ message: "connect ECONNREFUSED" });
+  };
+  const storage = Object.fromEntries(
+    ["listApplications", "getApplication", "getConfig", "createApplication", "healthCheck"].map((method) => [method, outage])
+  ) as unknown as PromiseConfigStorageService;
+  const service = await Effect.runPromise(Effect.provide(ConfigStorageService, createPromiseStorageLayer(storage)));
+
+  const server = createExpressApp(mockConfig, service).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  const headers = { Authorization: `Basic ${Buffer.from("admin:admin").toString("base64")}` };
+
+  try {
+    const config = await fetch(`${baseUrl}/config/app/1.0.0`);
+    assert(config.status === 503, `Config route should return 503 during an outage, got ${config.status}`);
+
+    for (const path of ["/api/admin/applications", "/api/admin/applications/app"]) {
+      const admin = await fetch(`${baseUrl}${path}`, { headers });
+      const body: any = await admin.json();
+      assert(admin.status === 503 && body.tag === "MongoNetworkError", `${path} should return 503, got ${admin.status}`);
+    }
+
+    const ready = await fetch(`${baseUrl}/health/ready`);
+    assert(ready.status === 503, `Readiness should return 503 during an outage, got ${ready.status}`);
+    const live = await fetch(`${baseUrl}/health/live`);
+    assert(live.status === 200, `Liveness should not depend on storage, got ${live.status}`);
+  } finally {
+    server.close();
+  }
+  log("503 responses verified");
+}
+
+async function runTests(): Promise<void> {
+  try {
+    testClassification();
+    await testFailFastStartup();
+    await testUnreachableServer();
+    await testServiceUnavailableResponses();
+    log("🎉 All MongoDB error tests passed successfully!");
+    process.exit(0);
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+runTests();
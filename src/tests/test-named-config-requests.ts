@@ -0,0 +1,110 @@
+// Test script for requesting named configs by name - version checks, 404 reasons and ConfigClient.checkVersion
+
+import { Effect, Layer, Context } from "effect";
+import type { AddressInfo } from "node:net";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { createExpressApp } from "../server/app.js";
+import { ConfigClient, ConfigNotFoundError } from "../client.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const TEST_APP_ID = "app-named";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+};
+
+const ConfigManagerOptionsLayer = Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function runTests(): Promise<void> {
+  const service = await Effect.runPromise(
+    Effect.provide(ConfigStorageService, Layer.provide(InMemoryConfigServiceLayer, ConfigManagerOptionsLayer))
+  );
+  const app: AppConfig = {
+    applicationId: TEST_APP_ID,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { env: "default" } },
+    schema: {},
+    lastUpdated: new Date(),
+  };
+  await Effect.runPromise(
+    Effect.gen(function* () {
+      yield* service.createApplication(app);
+      yield* service.createNamedConfig(TEST_APP_ID, "production", { env: "production" }, ["^1.0.0"]);
+      yield* service.createNamedConfig(TEST_APP_ID, "staging", { env: "staging" }, ["2.0.0"]);
+    })
+  );
+
+  const server = createExpressApp(mockConfig, service).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  const client = new ConfigClient({ baseUrl, applicationId: TEST_APP_ID, retries: 0 });
+
+  try {
+    log("Requesting named configs by name...");
+    const production = await fetch(`${baseUrl}/config/${TEST_APP_ID}/1.2.0?name=production`);
+    const body: any = await production.json();
+    assert(production.status === 200 && body.env === "production", `Expected the production config, got ${JSON.stringify(body)}`);
+    assert(production.headers.get("etag") !== null, "Named responses should carry an ETag");
+    assert((await client.getConfig("1.2.0", "production")).env === "production", "The client should send the config name");
+    assert((await client.getConfig("2.0.0")).env === "staging", "Without a name the version should resolve by precedence");
+
+    const cases: [string, string][] = [
+      [`/config/${TEST_APP_ID}/2.0.0?name=production`, "VersionNotAllowedError"],
+      [`/config/${TEST_APP_ID}/1.0.0?name=qa`, "NamedConfigNotFoundError"],
+      [`/config/${TEST_APP_ID}/1.0.0?name=constructor`, "NamedConfigNotFoundError"],
+      [`/config/missing/1.0.0?name=production`, "ApplicationNotFoundError"],
+    ];
+    for (const [path, tag] of cases) {
+      const response = await fetch(`${baseUrl}${path}`);
+      const error: any = await response.json();
+      assert(response.status === 404 && error.tag === tag, `${path} should return 404 ${tag}, got ${response.status} ${error.tag}`);
+    }
+    log("Named requests verified");
+
+    log("Checking versions...");
+    assert((await client.checkVersion("1.5.0", "production")) === true, "1.5.0 is allowed by ^1.0.0");
+    assert((await client.checkVersion("2.0.0", "production")) === false, "2.0.0 is not allowed by ^1.0.0");
+    const missing = await client.checkVersion("1.0.0", "qa").then(
+      () => undefined,
+      (error) => error
+    );
+    assert(
+      missing instanceof ConfigNotFoundError && missing.tag === "NamedConfigNotFoundError",
+      `A missing named config should throw, got ${missing}`
+    );
+
+    await Effect.runPromise(service.archiveApplication(TEST_APP_ID));
+    const archived = await fetch(`${baseUrl}/config/${TEST_APP_ID}/1.0.0?name=production`);
+    assert(archived.status === 404, "Archived applications should not serve named configs");
+    log("checkVersion verified");
+
+    log("🎉 All named config request tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+runTests();
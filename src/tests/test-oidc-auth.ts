@@ -0,0 +1,224 @@
+// Test script for OIDC sign-in - JWT verification against a JWKS, claim-to-role mapping and attribution
+
+import { Effect, Layer, Context } from "effect";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { generateKeyPairSync, sign, createHmac, type KeyObject } from "node:crypto";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { ApiTokenService, ApiTokenServiceLayer, InMemoryApiTokenStoreLayer } from "../core/services/ApiTokenService.js";
+import { createJwtVerifier } from "../core/auth/jwtVerifier.js";
+import { createAdminAccess } from "../server/middleware/authorization.js";
+import { createExpressApp } from "../server/app.js";
+import type { AppConfig, ConfigManagerOptions, OidcOptions } from "../core/types.js";
+
+const ISSUER = "https://idp.example.test";
+const AUDIENCE = "configurator";
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function application(applicationId: string): AppConfig {
+  return {
+    applicationId,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { foo: "bar" } },
+    schema: { type: "object" },
+    lastUpdated: new Date(),
+  };
+}
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function signJwt(claims: Record<string, unknown>, key: KeyObject, kid: string, alg: "RS256" | "ES256" = "RS256"): string {
+  const now = Math.floor(Date.now() / 1000);
+  const body = `${encode({ alg, kid, typ: "JWT" })}.${encode({ iss: ISSUER, aud: AUDIENCE, iat: now, exp: now + 300, ...claims })}`;
+  const signature = sign("sha256", Buffer.from(body), alg === "ES256" ? { key, dsaEncoding: "ieee-p1363" } : key);
+  return `${body}.${signature.toString("base64url")}`;
+}
+
+async function runTests(): Promise<void> {
+  const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const rotated = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const impostor = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const jwk = (key: KeyObject, kid: string) => ({ ...key.export({ format: "jwk" }), kid, use: "sig" });
+
+  // Stand-in for the identity provider's jwks_uri
+  const published = [jwk(rsa.publicKey, "rsa-1"), jwk(ec.publicKey, "ec-1")];
+  let jwksRequests = 0;
+  const jwksServer = http.createServer((_req, res) => {
+    jwksRequests++;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ keys: published }));
+  });
+  jwksServer.listen(0);
+  await new Promise((resolve) => jwksServer.once("listening", resolve));
+
+  const oidc: OidcOptions = {
+    issuer: ISSUER,
+    audience: AUDIENCE,
+    jwks: `http://localhost:${(jwksServer.address() as AddressInfo).port}/jwks.json`,
+    rolesClaim: "realm_access.roles",
+    roleMappings: {
+      "config-admins": { "*": "owner" },
+      "checkout-devs": { "app-a": "editor" },
+      "checkout-readers": { "app-a": "viewer", "app-b": "viewer" },
+    },
+    cookieName: "id_token",
+    loginUrl: "https://idp.example.test/login",
+  };
+  const mockConfig: ConfigManagerOptions = {
+    port: 3000,
+    logger: {
+      info: () => {},
+      error: () => {},
+      warn: () => {},
+      debug: () => {},
+      log: () => {},
+    },
+    admin: { username: "admin", password: "admin", oidc },
+  };
+  const optionsLayer = Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig);
+
+  const service = await Effect.runPromise(Effect.provide(ConfigStorageService, Layer.provide(InMemoryConfigServiceLayer, optionsLayer)));
+  const tokens = await Effect.runPromise(
+    Effect.provide(ApiTokenService, Layer.provide(Layer.provide(ApiTokenServiceLayer, InMemoryApiTokenStoreLayer), optionsLayer))
+  );
+  await Effect.runPromise(Effect.all([service.createApplication(application("app-a")), service.createApplication(application("app-b"))]));
+
+  const server = createExpressApp(mockConfig, service, undefined, undefined, tokens).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  function request(headers: Record<string, string>) {
+    return (path: string, method = "GET", body?: unknown) =>
+      fetch(`${baseUrl}/api/admin${path}`, {
+        method,
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+  }
+  const bearer = (jwt: string) => request({ Authorization: `Bearer ${jwt}` });
+  const rejection = async (response: Response) => ({ status: response.status, body: (await response.json()) as any });
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "configurator-oidc-"));
+
+  try {
+    log("Signing in with JWTs...");
+    const dana = bearer(signJwt({ preferred_username: "dana", realm_access: { roles: ["checkout-devs", "checkout-readers"] } }, rsa.privateKey, "rsa-1"));
+    const me: any = await (await dana("/me")).json();
+    assert(me.username === "dana", `The username should come from preferred_username, got ${me.username}`);
+    assert(me.roles["app-a"] === "editor" && me.roles["app-b"] === "viewer", `Mapped roles should keep the highest, got ${JSON.stringify(me.roles)}`);
+    const written = await dana("/applications/app-a/configs", "POST", { name: "prod", data: { foo: "prod" }, versions: ["1.0.0"] });
+    assert(written.status === 201, `Editors signed in through OIDC should write, got ${written.status}`);
+    const revisions: any[] = await (await dana("/applications/app-a/revisions")).json();
+    assert(revisions[0].author === "dana", `Writes should be attributed to the OIDC user, got ${revisions[0].author}`);
+    assert((await dana("/applications/app-b/configs", "POST", { name: "prod", data: {}, versions: ["1.0.0"] })).status === 403, "Mapped viewers should not write");
+
+    const olivia = signJwt({ email: "olivia@example.test", realm_access: { roles: ["config-admins"] } }, ec.privateKey, "ec-1", "ES256");
+    const byCookie = request({ Cookie: `theme=dark; id_token=${olivia}` });
+    assert((await byCookie("/applications", "POST", application("app-c"))).status === 201, "ES256 JWTs in the cookie should sign in");
+    const oliviaMe: any = await (await byCookie("/me")).json();
+    assert(oliviaMe.username === "olivia@example.test", `The username should fall back to email, got ${oliviaMe.username}`);
+    log("JWT sign-in verified");
+
+    log("Rejecting invalid JWTs...");
+    const now = Math.floor(Date.now() / 1000);
+    const cases: [string, string][] = [
+      ["expired", signJwt({ sub: "x", exp: now - 120 }, rsa.privateKey, "rsa-1")],
+      ["another issuer", signJwt({ sub: "x", iss: "https://evil.example.test" }, rsa.privateKey, "rsa-1")],
+      ["another audience", signJwt({ sub: "x", aud: "other-app" }, rsa.privateKey, "rsa-1")],
+      ["signed by an unknown key", signJwt({ sub: "x" }, impostor.privateKey, "rsa-1")],
+      ["unsigned", `${encode({ alg: "none", typ: "JWT" })}.${encode({ sub: "x", iss: ISSUER, aud: AUDIENCE, exp: now + 60 })}.`],
+      ["malformed", "not-a-jwt"],
+    ];
+    const hmacBody = `${encode({ alg: "HS256", kid: "rsa-1" })}.${encode({ sub: "x", iss: ISSUER, aud: AUDIENCE, exp: now + 60 })}`;
+    cases.push(["HMAC-signed with the public key", `${hmacBody}.${createHmac("sha256", JSON.stringify(published[0])).update(hmacBody).digest("base64url")}`]);
+    for (const [label, jwt] of cases) {
+      const { status, body } = await rejection(await bearer(jwt)("/me"));
+      assert(status === 401 && body.tag === "InvalidTokenError", `A JWT ${label} should be rejected, got ${status}`);
+    }
+    const basic = await fetch(`${baseUrl}/api/admin/me`, { headers: { Authorization: "Basic " + Buffer.from("admin:admin").toString("base64") } });
+    assert(basic.status === 401, `Passwords should not be accepted unless allowed, got ${basic.status}`);
+    assert(basic.headers.get("WWW-Authenticate")?.startsWith("Bearer") === true, "No Basic Auth prompt should be offered");
+    const ui = await fetch(`${baseUrl}/admin/applications/app-a`, { redirect: "manual" });
+    const location = new URL(ui.headers.get("Location") ?? "http://invalid");
+    assert(ui.status === 302 && location.origin + location.pathname === oidc.loginUrl, `The admin UI should redirect to the login URL, got ${ui.status}`);
+    assert(location.searchParams.get("returnTo") === `${baseUrl}/admin/applications/app-a`, "The login URL should be told where to return");
+    log("Invalid JWTs rejected");
+
+    log("Following key rotation...");
+    const before = jwksRequests;
+    published.push(jwk(rotated.publicKey, "rsa-2"));
+    const rotatedJwt = signJwt({ sub: "svc-rotated", realm_access: { roles: ["checkout-readers"] } }, rotated.privateKey, "rsa-2");
+    assert((await bearer(rotatedJwt)("/me")).status === 200, "A JWT signed with a newly published key should be accepted");
+    assert(jwksRequests === before + 1, `An unknown kid should reload the JWKS once, got ${jwksRequests - before} requests`);
+    await bearer(signJwt({ sub: "x" }, rsa.privateKey, "rsa-unknown"))("/me");
+    assert(jwksRequests === before + 1, "Unknown kids should not reload the JWKS again right away");
+    log("Key rotation verified");
+
+    log("Using API tokens alongside JWTs...");
+    const created: any = await (await byCookie("/tokens", "POST", { name: "deploy", applications: ["app-a"], scopes: ["read"] })).json();
+    assert(created.token.createdBy === "olivia@example.test", "Tokens should be attributed to the OIDC user");
+    assert((await bearer(created.secret)("/applications/app-a")).status === 200, "API tokens of OIDC users should be accepted");
+    assert(created.token.creatorRoles?.["*"] === "owner", "Tokens should record the roles of their creator");
+
+    // A second instance sharing the token store knows nothing of the sign-ins the first one saw
+    const restarted = createExpressApp(mockConfig, service, undefined, undefined, tokens).listen(0);
+    await new Promise((resolve) => restarted.once("listening", resolve));
+    const restartedUrl = `http://localhost:${(restarted.address() as AddressInfo).port}/api/admin`;
+    const onRestarted = (headers: Record<string, string>) => fetch(`${restartedUrl}/applications/app-a`, { headers });
+    try {
+      const afterRestart = await onRestarted({ Authorization: `Bearer ${created.secret}` });
+      assert(afterRestart.status === 200, `Tokens of OIDC users should work before they sign in again, got ${afterRestart.status}`);
+      const demoted = signJwt({ email: "olivia@example.test", realm_access: { roles: [] } }, ec.privateKey, "ec-1", "ES256");
+      assert((await onRestarted({ Authorization: `Bearer ${demoted}` })).status === 403, "A user who lost their roles should be denied");
+      const narrowed = await onRestarted({ Authorization: `Bearer ${created.secret}` });
+      assert(narrowed.status === 403, `Roles seen at a later sign-in should narrow the token, got ${narrowed.status}`);
+    } finally {
+      restarted.close();
+    }
+    log("API tokens verified");
+
+    log("Loading the JWKS from a file...");
+    const jwksFile = path.join(directory, "jwks.json");
+    await fs.writeFile(jwksFile, JSON.stringify({ keys: [jwk(rsa.publicKey, "rsa-1")] }));
+    const fileVerifier = createJwtVerifier({ ...oidc, jwks: jwksFile });
+    const claims = await Effect.runPromise(fileVerifier.verify(signJwt({ sub: "file-user" }, rsa.privateKey, "rsa-1")));
+    assert(claims.sub === "file-user", "A JWKS file should verify JWTs");
+    const missing = await Effect.runPromise(Effect.either(createJwtVerifier({ ...oidc, jwks: path.join(directory, "missing.json") }).verify(signJwt({ sub: "x" }, rsa.privateKey, "rsa-1"))));
+    assert(missing._tag === "Left" && missing.left.message.includes("Could not load the JWKS"), "A missing JWKS should be reported");
+    log("JWKS file verified");
+
+    log("Keeping configured users apart...");
+    const mixed = createAdminAccess({ username: "admin", password: "admin", oidc: { ...oidc, allowBasicAuth: true } });
+    assert(!mixed.grant("admin", { "*": "viewer" }), "An OIDC identity should never take over a configured user");
+    assert(mixed.roleOf("admin", "app-a") === "owner", "The configured admin should keep its roles");
+    const oidcOnly = createAdminAccess({ username: "admin", password: "admin", oidc });
+    assert(oidcOnly.grant("admin", { "app-a": "viewer" }), "Without Basic Auth the configured names are free for OIDC users");
+    log("Configured users verified");
+
+    log("🎉 All OIDC auth tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+    jwksServer.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+runTests();
@@ -0,0 +1,154 @@
+// Test script for the React bindings - ConfigProvider and useConfig rendering, and the shared ConfigStore behind them
+
+import { Effect, Layer, Context } from "effect";
+import type { AddressInfo } from "node:net";
+import { renderToString } from "react-dom/server";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { createExpressApp } from "../server/app.js";
+import { ConfigClient, ConfigNotFoundError } from "../client.js";
+import { ConfigProvider, ConfigStore, useConfig } from "../react.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const TEST_APP_ID = "app-react";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  cacheControl: { maxAgeSeconds: 0, defaultMaxAgeSeconds: 0 },
+};
+
+const ConfigManagerOptionsLayer = Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function Probe({ path }: { path?: string }) {
+  const { config, loading, error } = useConfig(path);
+  return <span>{loading ? "loading" : error ? `error:${error.name}` : JSON.stringify(config)}</span>;
+}
+
+// Resolves once the store's snapshot satisfies the predicate
+function waitFor<T>(store: ConfigStore<T>, predicate: (config: any) => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`Timed out, last snapshot ${JSON.stringify(store.getSnapshot())}`)), 3000);
+    const check = () => {
+      if (predicate(store.getSnapshot())) {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve();
+      }
+    };
+    const unsubscribe = store.subscribe(check);
+    check();
+  });
+}
+
+async function runTests(): Promise<void> {
+  const service = await Effect.runPromise(
+    Effect.provide(ConfigStorageService, Layer.provide(InMemoryConfigServiceLayer, ConfigManagerOptionsLayer))
+  );
+  const app: AppConfig = {
+    applicationId: TEST_APP_ID,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { features: { darkMode: false } } },
+    schema: {},
+    lastUpdated: new Date(),
+  };
+  await Effect.runPromise(service.createApplication(app));
+  await Effect.runPromise(service.createNamedConfig(TEST_APP_ID, "production", { features: { darkMode: true } }, ["1.0.0"]));
+
+  const server = createExpressApp(mockConfig, service).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const client = new ConfigClient({ baseUrl: `http://localhost:${(server.address() as AddressInfo).port}`, applicationId: TEST_APP_ID, retries: 0 });
+
+  try {
+    log("Rendering with a static config...");
+    const html = renderToString(
+      <ConfigProvider config={{ features: { darkMode: true } }}>
+        <Probe />
+        <Probe path="features.darkMode" />
+        <Probe path="features.missing.deeper" />
+      </ConfigProvider>
+    );
+    assert(html.includes('{&quot;features&quot;:{&quot;darkMode&quot;:true}}'), `Expected the whole config, got ${html}`);
+    assert(html.includes("<span>true</span>") && html.includes("<span></span>"), `Expected values at paths, got ${html}`);
+    const loading = renderToString(
+      <ConfigProvider client={client} version="1.0.0">
+        <Probe />
+      </ConfigProvider>
+    );
+    assert(loading.includes("loading"), `A fetched config should render as loading first, got ${loading}`);
+    let outside: unknown;
+    try {
+      renderToString(<Probe />);
+    } catch (error) {
+      outside = error;
+    }
+    assert(outside instanceof Error && outside.message.includes("ConfigProvider"), "useConfig should require a provider");
+    log("Rendering verified");
+
+    log("Sharing one fetch...");
+    let requests = 0;
+    const getConfig = client.getConfig.bind(client);
+    client.getConfig = (...args) => {
+      requests++;
+      return getConfig(...args);
+    };
+    const store = new ConfigStore({ client, version: "1.0.0" });
+    const stopFirst = store.start();
+    const stopSecond = store.start();
+    await Promise.all([store.refresh(), store.refresh()]);
+    assert(store.getSnapshot().config.features.darkMode === true, "The named config matching 1.0.0 should be loaded");
+    assert(requests === 1, `Concurrent consumers should share one request, got ${requests}`);
+    stopFirst();
+    stopSecond();
+
+    const missing = new ConfigStore({ client, version: "1.0.0", configName: "qa" });
+    missing.start();
+    await waitFor(missing, (snapshot) => !snapshot.loading);
+    assert(missing.getSnapshot().error instanceof ConfigNotFoundError, "Failures should be exposed as the error state");
+    log("Shared fetch and error state verified");
+
+    log("Refreshing live...");
+    const live = new ConfigStore({ client, version: "2.0.0", live: { transport: "poll", minIntervalMs: 50, pollIntervalMs: 50 } });
+    const stopLive = live.start();
+    await waitFor(live, (snapshot) => snapshot.config?.features.darkMode === false);
+    await Effect.runPromise(service.updateApplication(TEST_APP_ID, { defaultConfig: { data: { features: { darkMode: true } } } }));
+    await waitFor(live, (snapshot) => snapshot.config?.features.darkMode === true);
+    stopLive();
+
+    const named = new ConfigStore({ client, version: "1.0.0", configName: "production", live: { pollIntervalMs: 50 } });
+    const stopNamed = named.start();
+    await waitFor(named, (snapshot) => snapshot.config?.features.darkMode === true);
+    await Effect.runPromise(service.updateNamedConfig(TEST_APP_ID, "production", { features: { darkMode: false } }, ["1.0.0"]));
+    await waitFor(named, (snapshot) => snapshot.config?.features.darkMode === false);
+    stopNamed();
+    log("Live refresh verified");
+
+    log("🎉 All React config tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    client.close();
+    server.close();
+  }
+}
+
+runTests();
@@ -0,0 +1,234 @@
+// Test script for read keys - protecting the public config API per application, rotation with an overlap and revocation
+
+import { Effect, Layer, Context } from "effect";
+import type { AddressInfo } from "node:net";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { ConfigChangeService, ConfigChangeServiceLayer, ConfigChangePublisherLayer } from "../core/services/ConfigChangeService.js";
+import { ResolutionCacheService, ResolutionCacheServiceLayer } from "../core/services/ResolutionCacheService.js";
+import { SqliteConfigServiceLayer } from "../core/services/SqliteConfigService.js";
+import { createExpressApp } from "../server/app.js";
+import { ConfigClient, ConfigAccessDeniedError } from "../client.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: {
+    username: "admin",
+    password: "admin",
+    users: [{ username: "alice", password: "alice-pw", roles: { "app-keyed": "editor" } }],
+  },
+  resolutionCache: {},
+};
+
+// Same composition as configManager.start()
+const appLayer = Layer.provide(
+  ResolutionCacheServiceLayer,
+  Layer.provide(ConfigChangePublisherLayer, InMemoryConfigServiceLayer)
+).pipe(
+  Layer.provideMerge(ConfigChangeServiceLayer),
+  Layer.provide(Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig))
+);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function application(applicationId: string): AppConfig {
+  return {
+    applicationId,
+    archived: false,
+    namedConfigs: { beta: { data: { foo: "beta" }, versions: ["1.0.0"] } },
+    defaultConfig: { data: { foo: "bar" } },
+    schema: { type: "object" },
+    lastUpdated: new Date(),
+  };
+}
+
+async function listen(options: ConfigManagerOptions, ...services: [ConfigStorageService, ResolutionCacheService?, ConfigChangeService?]) {
+  const server = createExpressApp(options, ...services).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  return { server, baseUrl: `http://localhost:${(server.address() as AddressInfo).port}` };
+}
+
+const sqliteService = (options: ConfigManagerOptions) =>
+  Effect.runPromise(
+    Effect.provide(
+      ConfigStorageService,
+      Layer.provide(SqliteConfigServiceLayer, Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), options))
+    )
+  );
+
+// Keys and the public flag issued through the admin API must be enforced by, and survive a restart of, the SQLite backend
+async function checkSqlite(directory: string): Promise<void> {
+  const options: ConfigManagerOptions = { ...mockConfig, resolutionCache: undefined, sqlite: { filename: path.join(directory, "configs.db") } };
+  const service = await sqliteService(options);
+  await Effect.runPromise(service.createApplication(application("app-sqlite")));
+  const { server, baseUrl } = await listen(options, service);
+  const authorization = "Basic " + Buffer.from("admin:admin").toString("base64");
+  const url = `${baseUrl}/config/app-sqlite/1.0.0`;
+  try {
+    const created = await fetch(`${baseUrl}/api/admin/applications/app-sqlite/read-keys`, {
+      method: "POST",
+      headers: { Authorization: authorization, "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "web" }),
+    });
+    const { secret }: any = await created.json();
+    assert((await fetch(url)).status === 401, "SQLite applications with keys should need one");
+    assert((await fetch(url, { headers: { "X-Config-Key": secret } })).status === 200, "SQLite applications should accept their keys");
+
+    const restarted = await sqliteService(options);
+    const stored = await Effect.runPromise(restarted.getApplication("app-sqlite"));
+    assert(stored?.readKeys?.length === 1 && stored.readKeys[0].createdAt instanceof Date, "Read keys should survive a restart");
+
+    await Effect.runPromise(restarted.updateApplication("app-sqlite", { public: true }));
+    assert((await fetch(url)).status === 200, "The public flag should be read back from SQLite");
+  } finally {
+    server.close();
+  }
+}
+
+async function runTests(): Promise<void> {
+  const { service, cache, changes } = await Effect.runPromise(
+    Effect.all({ service: ConfigStorageService, cache: ResolutionCacheService, changes: ConfigChangeService }).pipe(
+      Effect.provide(appLayer)
+    )
+  );
+  await Effect.runPromise(Effect.all([service.createApplication(application("app-keyed")), service.createApplication(application("app-open"))]));
+  const { server, baseUrl } = await listen(mockConfig, service, cache, changes);
+  const strict = await listen({ ...mockConfig, readKeys: { required: true } }, service, cache, changes);
+
+  function request(authorization: string) {
+    return (path: string, method = "GET", body?: unknown) =>
+      fetch(`${baseUrl}/api/admin${path}`, {
+        method,
+        headers: { Authorization: authorization, "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+  }
+  const admin = request("Basic " + Buffer.from("admin:admin").toString("base64"));
+  const alice = request("Basic " + Buffer.from("alice:alice-pw").toString("base64"));
+  const config = (path: string, key?: string) => fetch(`${baseUrl}${path}`, { headers: key ? { "X-Config-Key": key } : {} });
+  const keyed = "/config/app-keyed/1.0.0";
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "configurator-read-keys-"));
+
+  try {
+    log("Serving applications without keys...");
+    const open = await config(keyed);
+    assert(open.status === 200, `Applications without keys should stay open, got ${open.status}`);
+    assert(!open.headers.get("Cache-Control")?.startsWith("private"), "Open responses should stay shareable");
+    log("Open applications verified");
+
+    log("Creating a key...");
+    assert((await alice("/applications/app-keyed/read-keys", "POST", { name: "web" })).status === 403, "Editors should not create keys");
+    const created = await admin("/applications/app-keyed/read-keys", "POST", { name: "web" });
+    assert(created.status === 201, `Creating a key should answer 201, got ${created.status}`);
+    const { key, secret }: any = await created.json();
+    assert(typeof secret === "string" && secret.startsWith("rk_") && key.name === "web", "The secret should be returned once");
+    const stored: any = await (await admin("/applications/app-keyed")).json();
+    assert(stored.readKeys.length === 1 && !JSON.stringify(stored).includes(secret), "Only the hash of the key should be stored");
+    log("Key creation verified");
+
+    log("Checking keys...");
+    const missing = await config(keyed);
+    const missingBody: any = await missing.json();
+    assert(missing.status === 401 && missingBody.tag === "ReadKeyRequiredError", `A missing key should answer 401, got ${missing.status}`);
+    const wrong: any = await (await config(keyed, "rk_wrong")).json();
+    assert(wrong.tag === "InvalidReadKeyError", `A wrong key should be rejected, got ${JSON.stringify(wrong)}`);
+    const viaHeader = await config(keyed, secret);
+    assert(viaHeader.status === 200, `The key should be accepted in the header, got ${viaHeader.status}`);
+    assert(viaHeader.headers.get("Cache-Control")?.startsWith("private, ") === true, "Keyed responses should be private");
+    assert(viaHeader.headers.get("Vary")?.includes("X-Config-Key") === true, "Keyed responses should vary by key");
+    assert((await config(`${keyed}?key=${secret}`)).status === 200, "The key should be accepted as a query parameter");
+    assert((await config(`${keyed}?name=beta`)).status === 401, "Named configs should need the key too");
+    const named: any = await (await config(`${keyed}?name=beta`, secret)).json();
+    assert(named.foo === "beta", "Named configs should be served with the key");
+    assert((await config("/config/app-open/1.0.0")).status === 200, "Other applications should not be affected");
+    log("Key checks verified");
+
+    log("Checking the client...");
+    const client = new ConfigClient({ baseUrl, applicationId: "app-keyed", readKey: secret, retries: 0 });
+    assert((await client.getConfig("1.0.0")).foo === "beta", "The client should send its read key");
+    const denied = await new ConfigClient({ baseUrl, applicationId: "app-keyed", retries: 0 }).getConfig("1.0.0").catch((error) => error);
+    assert(denied instanceof ConfigAccessDeniedError && denied.status === 401, `Clients without a key should be denied, got ${denied}`);
+    log("Client verified");
+
+    log("Checking streams...");
+    assert((await fetch(`${baseUrl}${keyed}/stream`)).status === 401, "Streams should need the key");
+    const stream = await fetch(`${baseUrl}${keyed}/stream`, { headers: { "X-Config-Key": secret } });
+    assert(stream.status === 200, `Streams should open with the key, got ${stream.status}`);
+    await stream.body!.cancel();
+    log("Streams verified");
+
+    log("Rotating the key...");
+    const rotated = await admin(`/applications/app-keyed/read-keys/${key.id}/rotate`, "POST", { overlapSeconds: 60 });
+    assert(rotated.status === 201, `Rotating should answer 201, got ${rotated.status}`);
+    const replacement: any = await rotated.json();
+    assert(replacement.key.name === "web" && replacement.secret !== secret, "Rotation should issue a new key with the same name");
+    assert((await config(keyed, secret)).status === 200, "The old key should keep working during the overlap");
+    assert((await config(keyed, replacement.secret)).status === 200, "The new key should work at once");
+    const invalidOverlap = await admin(`/applications/app-keyed/read-keys/${replacement.key.id}/rotate`, "POST", { overlapSeconds: -1 });
+    assert(invalidOverlap.status === 400, `A negative overlap should answer 400, got ${invalidOverlap.status}`);
+    const immediate: any = await (
+      await admin(`/applications/app-keyed/read-keys/${replacement.key.id}/rotate`, "POST", { overlapSeconds: 0 })
+    ).json();
+    assert((await config(keyed, replacement.secret)).status === 401, "A rotation without overlap should end the old key at once");
+    assert((await admin("/applications/app-keyed/read-keys/unknown/rotate", "POST", {})).status === 404, "Unknown keys should answer 404");
+    log("Rotation verified");
+
+    log("Revoking keys...");
+    assert((await admin(`/applications/app-keyed/read-keys/${key.id}`, "DELETE")).status === 204, "Revoking should answer 204");
+    assert((await config(keyed, secret)).status === 401, "Revoked keys should be rejected at once");
+    assert((await admin(`/applications/app-keyed/read-keys/${immediate.key.id}`, "DELETE")).status === 204, "The last key should be revocable");
+    assert((await config(keyed)).status === 401, "Revoking the last key should lock the application, not open it");
+    assert((await admin(`/applications/app-keyed/read-keys/${key.id}`, "DELETE")).status === 404, "Revoking twice should answer 404");
+    log("Revocation verified");
+
+    log("Making the application public...");
+    assert((await alice("/applications/app-keyed", "PUT", { public: true })).status === 403, "Editors should not make applications public");
+    assert((await admin("/applications/app-keyed", "PUT", { public: true })).status === 200, "Owners should make applications public");
+    assert((await config(keyed)).status === 200, "Public applications should be served without a key");
+    log("Public applications verified");
+
+    log("Requiring keys by default...");
+    const strictOpen = await fetch(`${strict.baseUrl}/config/app-open/1.0.0`);
+    assert(strictOpen.status === 401, `Applications without keys should be refused when keys are required, got ${strictOpen.status}`);
+    const unknown = await fetch(`${strict.baseUrl}/config/app-unknown/1.0.0`);
+    assert(unknown.status === 401, `Unknown applications should not be revealed, got ${unknown.status}`);
+    assert((await fetch(`${strict.baseUrl}${keyed}`)).status === 200, "Public applications should stay open");
+    log("Required keys verified");
+
+    log("Checking the SQLite backend...");
+    await checkSqlite(directory);
+    log("SQLite backend verified");
+
+    log("🎉 All read key tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    for (const running of [server, strict.server]) {
+      running.closeAllConnections();
+      running.close();
+    }
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+runTests();
@@ -0,0 +1,150 @@
+// Test script for the resolution cache - hits and misses, named configs, TTL expiry, size bounds and invalidation on admin writes
+
+import { Effect, Layer, Context } from "effect";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { ResolutionCacheService, ResolutionCacheServiceLayer } from "../core/services/ResolutionCacheService.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const TEST_APP_ID = "app-cache";
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+};
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function cachedLayer(resolutionCache: ConfigManagerOptions["resolutionCache"]) {
+  const optionsLayer = Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), {
+    ...mockConfig,
+    resolutionCache,
+  });
+  return Layer.provide(Layer.provide(ResolutionCacheServiceLayer, InMemoryConfigServiceLayer), optionsLayer);
+}
+
+const app: AppConfig = {
+  applicationId: TEST_APP_ID,
+  archived: false,
+  namedConfigs: {},
+  defaultConfig: { data: { foo: "v1" } },
+  schema: {},
+  lastUpdated: new Date(),
+};
+
+const testHitsAndInvalidation = Effect.gen(function* () {
+  const service = yield* ConfigStorageService;
+  const cache = yield* ResolutionCacheService;
+  const request = { applicationId: TEST_APP_ID, version: "1.0.0" };
+
+  log("Resolving through the cache...");
+  assert((yield* service.getConfig(request)) === null, "A missing application should resolve to null");
+  yield* service.createApplication(app);
+  const first = yield* service.getConfig(request);
+  assert(first?.data.foo === "v1", "Creating an application should invalidate its cached miss");
+  const second = yield* service.getConfig(request);
+  assert(second?.data.foo === "v1", "A repeated resolution should be served from the cache");
+  let stats = yield* cache.stats();
+  assert(stats.enabled && stats.hits === 1 && stats.misses === 2, `Expected 1 hit and 2 misses, got ${JSON.stringify(stats)}`);
+  log("Hits and misses verified");
+
+  log("Invalidating on admin writes...");
+  yield* service.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v2" } } });
+  assert((yield* service.getConfig(request))?.data.foo === "v2", "An update should invalidate cached resolutions");
+  yield* service.createNamedConfig(TEST_APP_ID, "beta", { foo: "beta" }, ["1.0.0"]);
+  assert((yield* service.getConfig(request))?.data.foo === "beta", "A new named config should invalidate cached resolutions");
+  yield* service.deleteNamedConfig(TEST_APP_ID, "beta");
+  assert((yield* service.getConfig(request))?.data.foo === "v2", "Deleting a named config should invalidate cached resolutions");
+  yield* service.archiveApplication(TEST_APP_ID);
+  assert((yield* service.getConfig(request)) === null, "Archiving should invalidate cached resolutions");
+  yield* service.unarchiveApplication(TEST_APP_ID);
+  assert((yield* service.getConfig(request)) !== null, "Unarchiving should invalidate cached resolutions");
+
+  const failed = yield* service.updateApplication("missing", {}).pipe(Effect.flip);
+  assert(failed._tag === "ApplicationNotFoundError", "Failed writes should pass their error through");
+
+  yield* cache.clear();
+  stats = yield* cache.stats();
+  assert(stats.size === 0, "clear() should drop every entry");
+  log("Invalidation verified");
+
+  log("Serving named configs through the cache...");
+  yield* service.createNamedConfig(TEST_APP_ID, "gamma", { foo: "gamma" }, ["2.0.0"]);
+  const named = { applicationId: TEST_APP_ID, version: "2.0.0" };
+  const before = yield* cache.stats();
+  const firstNamed = yield* cache.namedConfig(named, "gamma");
+  assert("result" in firstNamed && firstNamed.result.data.foo === "gamma", "A named config should resolve by name");
+  yield* cache.namedConfig(named, "gamma");
+  stats = yield* cache.stats();
+  assert(stats.hits === before.hits + 1 && stats.misses === before.misses + 1, `A repeated named lookup should be a hit, got ${JSON.stringify(stats)}`);
+  yield* service.updateNamedConfig(TEST_APP_ID, "gamma", { foo: "gamma2" }, ["2.0.0"]);
+  const updatedNamed = yield* cache.namedConfig(named, "gamma");
+  assert("result" in updatedNamed && updatedNamed.result.data.foo === "gamma2", "A named config update should invalidate named lookups");
+  const refused = yield* cache.namedConfig({ ...named, version: "1.0.0" }, "gamma");
+  assert("missing" in refused && refused.missing === "version", "A version the named config does not allow should not be served");
+  log("Named config lookups verified");
+});
+
+const testBounds = Effect.gen(function* () {
+  const service = yield* ConfigStorageService;
+  const cache = yield* ResolutionCacheService;
+  yield* service.createApplication(app);
+
+  log("Evicting beyond maxEntries...");
+  for (const version of ["1.0.0", "1.0.1", "1.0.2"]) {
+    yield* service.getConfig({ applicationId: TEST_APP_ID, version });
+  }
+  let stats = yield* cache.stats();
+  assert(stats.size === 2 && stats.evictions === 1, `Expected 2 entries and 1 eviction, got ${JSON.stringify(stats)}`);
+  yield* service.getConfig({ applicationId: TEST_APP_ID, version: "1.0.0" });
+  stats = yield* cache.stats();
+  assert(stats.hits === 0, "The least recently used entry should have been evicted");
+  log("Size bound verified");
+
+  log("Expiring entries after the TTL...");
+  yield* service.getConfig({ applicationId: TEST_APP_ID, version: "1.0.0" });
+  yield* Effect.sleep("120 millis");
+  yield* service.getConfig({ applicationId: TEST_APP_ID, version: "1.0.0" });
+  stats = yield* cache.stats();
+  assert(stats.hits === 1 && stats.misses === 5, `Expired entries should be resolved again, got ${JSON.stringify(stats)}`);
+  log("TTL verified");
+});
+
+const testDisabled = Effect.gen(function* () {
+  const service = yield* ConfigStorageService;
+  const cache = yield* ResolutionCacheService;
+  yield* service.createApplication(app);
+  yield* service.getConfig({ applicationId: TEST_APP_ID, version: "1.0.0" });
+  const stats = yield* cache.stats();
+  assert(!stats.enabled && stats.misses === 0, "Without the option the cache should pass calls through");
+  log("Disabled cache verified");
+});
+
+async function runTests(): Promise<void> {
+  try {
+    await Effect.runPromise(testHitsAndInvalidation.pipe(Effect.provide(cachedLayer({}))));
+    await Effect.runPromise(testBounds.pipe(Effect.provide(cachedLayer({ ttlSeconds: 0.1, maxEntries: 2 }))));
+    await Effect.runPromise(testDisabled.pipe(Effect.provide(cachedLayer(undefined))));
+    log("🎉 All resolution cache tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+runTests();
@@ -0,0 +1,131 @@
+// Test script for revision history - records revisions on every write, rolls back and rejects stale writes through the in-memory and SQLite services
+
+import { Effect, Layer, Context } from "effect";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { SqliteConfigServiceLayer } from "../core/services/SqliteConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import type { AppConfig } from "../core/types.js";
+
+const TEST_APP_ID = "app-revisions";
+const TEST_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  properties: {},
+  required: [],
+  additionalProperties: true,
+};
+
+const mockConfig = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  sqlite: { filename: ":memory:" },
+};
+
+const ConfigManagerOptionsLayer = Layer.succeed(Context.GenericTag("ConfigManagerOptions"), mockConfig);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const program = Effect.gen(function* () {
+  const service = yield* ConfigStorageService;
+
+  const app: AppConfig = {
+    applicationId: TEST_APP_ID,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { foo: "v1" } },
+    schema: TEST_SCHEMA,
+    lastUpdated: new Date(),
+  };
+
+  log("Creating application and applying writes...");
+  yield* service.createApplication(app, "alice");
+  yield* service.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v2" } } }, "bob");
+  yield* service.createNamedConfig(TEST_APP_ID, "beta", { foo: "beta" }, ["1.0.0"], "bob");
+  yield* service.deleteNamedConfig(TEST_APP_ID, "beta", "carol");
+  yield* service.archiveApplication(TEST_APP_ID);
+
+  const revisions = yield* service.listRevisions(TEST_APP_ID);
+  assert(revisions.length === 5, `Expected 5 revisions, got ${revisions.length}`);
+  assert(
+    revisions.map((r) => r.revision).join(",") === "5,4,3,2,1",
+    `Revisions should be listed newest first, got ${revisions.map((r) => r.revision).join(",")}`
+  );
+  assert(revisions[4].author === "alice", `Expected first revision by alice, got ${revisions[4].author}`);
+  assert(revisions[0].author === "system", `Expected unattributed write to be recorded as system, got ${revisions[0].author}`);
+  log("Every write recorded a revision");
+
+  const second = yield* service.getRevision(TEST_APP_ID, 2);
+  assert(second.snapshot.defaultConfig.data.foo === "v2", "Revision 2 should hold the updated default config");
+
+  const missing = yield* service.getRevision(TEST_APP_ID, 42).pipe(Effect.flip);
+  assert(missing._tag === "RevisionNotFoundError", `Expected RevisionNotFoundError, got ${missing._tag}`);
+  log("Revision lookup verified");
+
+  log("Rolling back to revision 1...");
+  const rolledBack = yield* service.rollbackApplication(TEST_APP_ID, 1, "dave");
+  assert(rolledBack.defaultConfig.data.foo === "v1", "Rollback should restore the default config of revision 1");
+  assert(rolledBack.archived, "Rollback should not change the archived flag");
+
+  const afterRollback = yield* service.listRevisions(TEST_APP_ID);
+  assert(afterRollback[0].revision === 6 && afterRollback[0].author === "dave", "Rollback should be recorded as revision 6");
+
+  const untouched = yield* service.getRevision(TEST_APP_ID, 2);
+  assert(untouched.snapshot.defaultConfig.data.foo === "v2", "Earlier revisions must not change after a rollback");
+  log("Rollback verified");
+
+  log("Checking optimistic concurrency...");
+  const current = yield* service.getApplication(TEST_APP_ID);
+  assert(current?.revision === 6, `Application should carry its current revision, got ${current?.revision}`);
+
+  const missingConfig = yield* service.updateNamedConfig(TEST_APP_ID, "missing", {}, [], "erin", 6).pipe(Effect.flip);
+  assert(missingConfig._tag === "NamedConfigNotFoundError", `Expected NamedConfigNotFoundError, got ${missingConfig._tag}`);
+
+  const fresh = yield* service.updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "v3" } } }, "erin", 6);
+  assert(fresh.revision === 7, `Matching expected revision should succeed, got revision ${fresh.revision}`);
+
+  const stale = yield* service
+    .updateApplication(TEST_APP_ID, { defaultConfig: { data: { foo: "lost" } } }, "frank", 6)
+    .pipe(Effect.flip);
+  assert(stale._tag === "StaleRevisionError", `Expected StaleRevisionError, got ${stale._tag}`);
+  if (stale._tag === "StaleRevisionError") {
+    assert(stale.currentRevision === 7, `Stale error should report revision 7, got ${stale.currentRevision}`);
+  }
+
+  const unchanged = yield* service.getApplication(TEST_APP_ID);
+  assert(unchanged?.defaultConfig.data.foo === "v3", "A stale write must not overwrite the application");
+  log("Optimistic concurrency verified");
+});
+
+async function runTests(): Promise<void> {
+  try {
+    // Each run builds a fresh layer, so every backend starts from an empty store
+    for (const [name, layer] of [
+      ["in-memory", InMemoryConfigServiceLayer],
+      ["SQLite", SqliteConfigServiceLayer],
+    ] as const) {
+      log(`Running against ${name} storage...`);
+      await Effect.runPromise(program.pipe(Effect.provide(layer), Effect.provide(ConfigManagerOptionsLayer)));
+    }
+    log("🎉 All revision tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+runTests();
@@ -0,0 +1,81 @@
+// Test script running the storage conformance suite against the built-in backends (MongoDB only when MONGO_HOST is set)
+
+import { Layer, Context } from "effect";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { runStorageConformance } from "../core/conformance/storageConformance.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { SqliteConfigServiceLayer } from "../core/services/SqliteConfigService.js";
+import { FileSystemConfigServiceLayer } from "../core/services/FileSystemConfigService.js";
+import { MongoConfigServiceLayer } from "../core/services/MongoConfigService.js";
+import type { ConfigManagerOptions } from "../core/types.js";
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function withOptions(layer: Layer.Layer<ConfigStorageService, unknown, ConfigManagerOptions>, options: Partial<ConfigManagerOptions>) {
+  const mockConfig: ConfigManagerOptions = {
+    port: 3000,
+    logger: {
+      info: () => {},
+      error: () => {},
+      warn: () => {},
+      debug: () => {},
+      log: () => {},
+    },
+    admin: { username: "admin", password: "admin" },
+    ...options,
+  };
+  return Layer.provide(layer, Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig));
+}
+
+async function runTests(): Promise<void> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "configurator-conformance-"));
+  const backends: [string, Layer.Layer<ConfigStorageService, unknown>][] = [
+    ["in-memory", withOptions(InMemoryConfigServiceLayer, {})],
+    ["SQLite", withOptions(SqliteConfigServiceLayer, { sqlite: { filename: ":memory:" } })],
+    ["file-system", withOptions(FileSystemConfigServiceLayer, { filesystem: { directory } })],
+  ];
+
+  if (process.env.MONGO_HOST) {
+    const mongodb = {
+      host: process.env.MONGO_HOST,
+      port: Number(process.env.MONGO_PORT || 27017),
+      collection: "conformance_configs",
+      auth: {
+        database: process.env.MONGO_DATABASE || "admin",
+        user: process.env.MONGO_USER || "",
+        password: process.env.MONGO_PASSWORD || "",
+      },
+    };
+    backends.push(["MongoDB", withOptions(MongoConfigServiceLayer, { mongodb })]);
+  } else {
+    log("MONGO_HOST not set, skipping MongoDB");
+  }
+
+  let failed = 0;
+  try {
+    for (const [name, layer] of backends) {
+      log(`Running conformance suite against ${name} storage...`);
+      const results = await runStorageConformance(layer, { log: (message) => log(`  ${message}`) });
+      failed += results.filter((result) => !result.passed).length;
+    }
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    failed++;
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+
+  if (failed > 0) {
+    log(`❌ ${failed} conformance check(s) failed`);
+    process.exit(1);
+  }
+  log("🎉 All storage conformance tests passed successfully!");
+  process.exit(0);
+}
+
+runTests();
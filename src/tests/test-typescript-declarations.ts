@@ -0,0 +1,181 @@
+// Test script for typed configs - TypeScript declarations generated from the schema and client-side schema validation
+
+import { Effect, Layer, Context } from "effect";
+import type { AddressInfo } from "node:net";
+import ts from "typescript";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import { createExpressApp } from "../server/app.js";
+import { configTypeName, schemaToTypeScript } from "../core/codegen/schemaToTypeScript.js";
+import { ConfigClient, InvalidConfigError } from "../client.js";
+import type { AppConfig, ConfigManagerOptions } from "../core/types.js";
+
+const TEST_APP_ID = "app-typed";
+const AUTH_HEADER = "Basic " + Buffer.from("admin:admin").toString("base64");
+
+const mockConfig: ConfigManagerOptions = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  cacheControl: { maxAgeSeconds: 0, defaultMaxAgeSeconds: 0 },
+};
+
+const ConfigManagerOptionsLayer = Layer.succeed(Context.GenericTag<ConfigManagerOptions>("ConfigManagerOptions"), mockConfig);
+
+const schema = {
+  type: "object",
+  title: "Typed app",
+  properties: {
+    apiUrl: { type: "string", description: "Base URL of the API" },
+    timeout: { type: "integer" },
+    mode: { enum: ["light", "dark"] },
+    "feature-flags": { type: "object", additionalProperties: { type: "boolean" } },
+    servers: { type: "array", items: { $ref: "#/$defs/server" } },
+    fallback: { type: ["string", "null"] },
+  },
+  required: ["apiUrl", "timeout"],
+  additionalProperties: false,
+  $defs: {
+    server: {
+      type: "object",
+      properties: { host: { type: "string" }, port: { type: "integer" } },
+      required: ["host"],
+    },
+  },
+};
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Type-checks the declarations together with code using them, returning the compiler's messages
+function typeCheck(declarations: string, usage: string): string[] {
+  const files: Record<string, string> = { "/types.d.ts": declarations, "/usage.ts": usage };
+  const options: ts.CompilerOptions = { strict: true, noEmit: true, types: [], lib: ["lib.es2022.d.ts"] };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, ...rest) =>
+    fileName in files
+      ? ts.createSourceFile(fileName, files[fileName], languageVersion)
+      : getSourceFile(fileName, languageVersion, ...rest);
+  host.fileExists = (fileName) => fileName in files || ts.sys.fileExists(fileName);
+  const program = ts.createProgram(Object.keys(files), options, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+}
+
+async function runTests(): Promise<void> {
+  log("Generating declarations...");
+  assert(configTypeName(TEST_APP_ID) === "AppTypedConfig", `Unexpected type name ${configTypeName(TEST_APP_ID)}`);
+  const declarations = schemaToTypeScript(schema, { typeName: "AppTypedConfig" });
+  for (const expected of [
+    "/** Typed app */\nexport interface AppTypedConfig {",
+    "  /** Base URL of the API */\n  apiUrl: string;",
+    "  timeout: number;",
+    '  mode?: "light" | "dark";',
+    '  "feature-flags"?: {\n    [key: string]: boolean;\n  };',
+    "  servers?: Server[];",
+    "  fallback?: string | null;",
+    "export interface Server {\n  host: string;\n  port?: number;\n}",
+  ]) {
+    assert(declarations.includes(expected), `Expected ${JSON.stringify(expected)} in:\n${declarations}`);
+  }
+
+  const valid = typeCheck(
+    declarations,
+    `import type { AppTypedConfig } from "./types";
+const config: AppTypedConfig = { apiUrl: "https://api", timeout: 5, mode: "dark", servers: [{ host: "a" }], fallback: null };
+export const port: number | undefined = config.servers?.[0].port;`
+  );
+  assert(valid.length === 0, `The declarations should compile, got: ${valid.join("; ")}`);
+  const invalid = typeCheck(
+    declarations,
+    `import type { AppTypedConfig } from "./types";
+export const config: AppTypedConfig = { apiUrl: "https://api", timeout: "5", colour: "red" };`
+  );
+  assert(invalid.length > 0, "Values breaking the schema should not compile");
+  log("Declarations verified");
+
+  const service = await Effect.runPromise(
+    Effect.provide(ConfigStorageService, Layer.provide(InMemoryConfigServiceLayer, ConfigManagerOptionsLayer))
+  );
+  const app: AppConfig = {
+    applicationId: TEST_APP_ID,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { apiUrl: "https://api.example.com", timeout: 30 } },
+    schema,
+    lastUpdated: new Date(),
+  };
+  await Effect.runPromise(service.createApplication(app));
+
+  const server = createExpressApp(mockConfig, service).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  const typesUrl = `${baseUrl}/api/admin/applications/${TEST_APP_ID}/types.d.ts`;
+
+  try {
+    log("Serving declarations from the admin API...");
+    const unauthorized = await fetch(typesUrl);
+    assert(unauthorized.status === 401, `Declarations should require admin credentials, got ${unauthorized.status}`);
+
+    const response = await fetch(typesUrl, { headers: { Authorization: AUTH_HEADER } });
+    const body = await response.text();
+    assert(response.status === 200, `Expected 200, got ${response.status}`);
+    assert(response.headers.get("content-type")?.startsWith("application/typescript") === true, "Declarations should be served as TypeScript");
+    assert(body.startsWith(`// Generated from the schema of '${TEST_APP_ID}' at revision 1`), `Missing header in:\n${body}`);
+    assert(body.includes("export interface AppTypedConfig {"), "The root type should be named after the application");
+
+    const renamed = await (await fetch(`${typesUrl}?typeName=Settings`, { headers: { Authorization: AUTH_HEADER } })).text();
+    assert(renamed.includes("export interface Settings {"), "typeName should rename the root type");
+    const badName = await fetch(`${typesUrl}?typeName=not-a-name`, { headers: { Authorization: AUTH_HEADER } });
+    assert(badName.status === 400, `Invalid type names should be rejected, got ${badName.status}`);
+    const missing = await fetch(`${baseUrl}/api/admin/applications/missing/types.d.ts`, { headers: { Authorization: AUTH_HEADER } });
+    assert(missing.status === 404, `Unknown applications should return 404, got ${missing.status}`);
+    log("Admin endpoint verified");
+
+    log("Validating configs in the client...");
+    const client = new ConfigClient({ baseUrl, applicationId: TEST_APP_ID, schema, retries: 0 });
+    assert((await client.getConfig("1.0.0")).timeout === 30, "Valid configs should be returned");
+
+    // A client built against a newer schema rejects configs the server still accepts
+    const newer = { ...schema, required: [...schema.required, "mode"] };
+    const strict = new ConfigClient({ baseUrl, applicationId: TEST_APP_ID, schema: newer, retries: 0, defaults: { apiUrl: "", timeout: 1 } });
+    const error = await strict.getConfig("1.0.0").then(
+      () => undefined,
+      (e) => e
+    );
+    assert(error instanceof InvalidConfigError, `Expected InvalidConfigError, got ${error}`);
+    assert(error.errors.some((issue: { message: string }) => issue.message.includes("mode")), `Expected the missing field, got ${JSON.stringify(error.errors)}`);
+
+    const reported: Error[] = [];
+    const watcher = strict.watch("1.0.0", undefined, { transport: "poll", minIntervalMs: 50, pollIntervalMs: 50, onError: (e) => reported.push(e) });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    watcher.close();
+    assert(watcher.current === undefined, "Watchers should not expose invalid configs");
+    assert(reported[0] instanceof InvalidConfigError, `Watchers should report invalid configs, got ${reported[0]}`);
+    log("Client validation verified");
+
+    log("🎉 All TypeScript declaration tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+runTests();
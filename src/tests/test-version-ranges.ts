@@ -0,0 +1,134 @@
+// Test script for semver range support - validation, overlap detection, resolution precedence and explain through the in-memory and SQLite services
+
+import { Effect, Layer, Context } from "effect";
+import { InMemoryConfigServiceLayer } from "../core/services/InMemoryConfigService.js";
+import { SqliteConfigServiceLayer } from "../core/services/SqliteConfigService.js";
+import { ConfigStorageService } from "../core/services/ConfigStorageService.js";
+import type { AppConfig } from "../core/types.js";
+
+const TEST_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  properties: {},
+  required: [],
+  additionalProperties: true,
+};
+
+const mockConfig = {
+  port: 3000,
+  logger: {
+    info: () => {},
+    error: () => {},
+    warn: () => {},
+    debug: () => {},
+    log: () => {},
+  },
+  admin: { username: "admin", password: "admin" },
+  sqlite: { filename: ":memory:" },
+};
+
+const ConfigManagerOptionsLayer = Layer.succeed(Context.GenericTag("ConfigManagerOptions"), mockConfig);
+
+function log(message: string): void {
+  console.log(`[TEST] ${message}`);
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function makeApp(applicationId: string, allowVersionOverlap = false): AppConfig {
+  return {
+    applicationId,
+    archived: false,
+    namedConfigs: {},
+    defaultConfig: { data: { source: "default" } },
+    schema: TEST_SCHEMA,
+    lastUpdated: new Date(),
+    allowVersionOverlap,
+  };
+}
+
+const program = Effect.gen(function* () {
+  const service = yield* ConfigStorageService;
+
+  log("Validating range syntax...");
+  yield* service.createApplication(makeApp("app-ranges"));
+  yield* service.createNamedConfig("app-ranges", "v2", { source: "v2" }, [">=2.3.0 <3.0.0"]);
+  yield* service.createNamedConfig("app-ranges", "v4", { source: "v4" }, ["~4.1", "4.3.0"]);
+
+  const invalid = yield* service.createNamedConfig("app-ranges", "bad", {}, ["not-a-range"]).pipe(Effect.flip);
+  assert(invalid._tag === "SemverValidationError", `Expected SemverValidationError, got ${invalid._tag}`);
+  const empty = yield* service.createNamedConfig("app-ranges", "empty", {}, [""]).pipe(Effect.flip);
+  assert(empty._tag === "SemverValidationError", `Expected SemverValidationError for empty entry, got ${empty._tag}`);
+  log("Range syntax verified");
+
+  log("Resolving versions against ranges...");
+  const inRange = yield* service.getConfig({ applicationId: "app-ranges", version: "2.5.1" });
+  assert(inRange?.data.source === "v2", `2.5.1 should resolve to v2, got ${inRange?.data.source}`);
+  const tilde = yield* service.getConfig({ applicationId: "app-ranges", version: "4.1.7" });
+  assert(tilde?.data.source === "v4", `4.1.7 should resolve to v4, got ${tilde?.data.source}`);
+  const outside = yield* service.getConfig({ applicationId: "app-ranges", version: "3.0.0" });
+  assert(outside?.data.source === "default", `3.0.0 should resolve to the default, got ${outside?.data.source}`);
+  log("Range resolution verified");
+
+  log("Detecting overlapping ranges...");
+  const overlap = yield* service.createNamedConfig("app-ranges", "hotfix", { source: "hotfix" }, ["2.9.0"]).pipe(Effect.flip);
+  assert(overlap._tag === "VersionConflictError", `Expected VersionConflictError, got ${overlap._tag}`);
+  if (overlap._tag === "VersionConflictError") {
+    assert(overlap.existingConfigName === "v2", `Conflict should name v2, got ${overlap.existingConfigName}`);
+    assert(overlap.existingVersion === ">=2.3.0 <3.0.0", `Conflict should report the overlapping range, got ${overlap.existingVersion}`);
+  }
+  const disjoint = yield* service.createNamedConfig("app-ranges", "legacy", { source: "legacy" }, ["<2.3.0"]);
+  assert(!!disjoint.namedConfigs.legacy, "Disjoint ranges should be accepted");
+  log("Overlap detection verified");
+
+  log("Resolving overlaps by precedence when allowed...");
+  yield* service.createApplication(makeApp("app-overlap", true));
+  yield* service.createNamedConfig("app-overlap", "zeta", { source: "zeta" }, ["^1.0.0"]);
+  yield* service.createNamedConfig("app-overlap", "alpha", { source: "alpha" }, [">=1.2.0"]);
+  yield* service.createNamedConfig("app-overlap", "pinned", { source: "pinned" }, ["1.2.3"]);
+
+  const exact = yield* service.getConfig({ applicationId: "app-overlap", version: "1.2.3" });
+  assert(exact?.data.source === "pinned", `Exact version should win over ranges, got ${exact?.data.source}`);
+  const byName = yield* service.getConfig({ applicationId: "app-overlap", version: "1.5.0" });
+  assert(byName?.data.source === "alpha", `Overlapping ranges should resolve in name order, got ${byName?.data.source}`);
+  log("Precedence verified");
+
+  log("Explaining resolution...");
+  const explained = yield* service.explainConfig({ applicationId: "app-overlap", version: "1.5.0" });
+  assert(
+    explained.source === "named" && explained.configName === "alpha" && explained.matchedVersion === ">=1.2.0",
+    `Explain should report alpha matched by >=1.2.0, got ${JSON.stringify(explained)}`
+  );
+  const explainedDefault = yield* service.explainConfig({ applicationId: "app-ranges", version: "3.0.0" });
+  assert(explainedDefault.source === "default" && !explainedDefault.configName, "Explain should report the default config");
+
+  yield* service.archiveApplication("app-ranges");
+  const archived = yield* service.explainConfig({ applicationId: "app-ranges", version: "2.5.1" });
+  assert(archived.archived && archived.configName === "v2", "Explain should still resolve archived applications");
+  const unknown = yield* service.explainConfig({ applicationId: "missing", version: "1.0.0" }).pipe(Effect.flip);
+  assert(unknown._tag === "ApplicationNotFoundError", `Expected ApplicationNotFoundError, got ${unknown._tag}`);
+  log("Resolution explain verified");
+});
+
+async function runTests(): Promise<void> {
+  try {
+    // Each run builds a fresh layer, so every backend starts from an empty store
+    for (const [name, layer] of [
+      ["in-memory", InMemoryConfigServiceLayer],
+      ["SQLite", SqliteConfigServiceLayer],
+    ] as const) {
+      log(`Running against ${name} storage...`);
+      await Effect.runPromise(program.pipe(Effect.provide(layer), Effect.provide(ConfigManagerOptionsLayer)));
+    }
+    log("🎉 All version range tests passed successfully!");
+  } catch (error: any) {
+    log(`❌ Test failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+runTests();